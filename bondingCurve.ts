@@ -0,0 +1,106 @@
+import { Commitment, Connection, PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { PUMP_FUN_PROGRAM } from "./constants";
+
+// Anchor account discriminator: first 8 bytes of sha256("account:BondingCurve")
+const BONDING_CURVE_DISCRIMINATOR = BigInt("6966180631402821399");
+const BONDING_CURVE_SEED = "bonding-curve";
+
+// Reserves of a freshly launched pump.fun token
+export const INITIAL_CURVE_RESERVES = {
+  virtualTokenReserves: BigInt("1073000000000000"),
+  virtualSolReserves: BigInt("30000000000"),
+  realTokenReserves: BigInt("793100000000000"),
+  realSolReserves: BigInt(0),
+  tokenTotalSupply: BigInt("1000000000000000"),
+  complete: false,
+};
+
+export type BondingCurveStateType = {
+  mint: PublicKey;
+  bondingCurve: PublicKey;
+  associatedBondingCurve: PublicKey;
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+};
+
+// Derive the bonding curve PDA that pump.fun creates for [mint]
+export function getBondingCurveAddress(mint: PublicKey) {
+  const [bondingCurve] = PublicKey.findProgramAddressSync(
+    [Buffer.from(BONDING_CURVE_SEED), mint.toBuffer()],
+    new PublicKey(PUMP_FUN_PROGRAM)
+  );
+  return bondingCurve;
+}
+
+// Derive the token account holding the curve's unsold supply of [mint]
+export function getAssociatedBondingCurveAddress(
+  mint: PublicKey,
+  bondingCurve = getBondingCurveAddress(mint)
+) {
+  return getAssociatedTokenAddressSync(mint, bondingCurve, true);
+}
+
+// Decode raw BondingCurve account data into reserves and completion flag
+export function decodeBondingCurve(mint: PublicKey, data: Buffer) {
+  if (data.length < 49) {
+    throw new Error(`Bonding curve account too short: ${data.length} bytes`);
+  }
+  if (data.readBigUInt64LE(0) !== BONDING_CURVE_DISCRIMINATOR) {
+    throw new Error("Account is not a pump.fun bonding curve");
+  }
+
+  const bondingCurve = getBondingCurveAddress(mint);
+  const state: BondingCurveStateType = {
+    mint,
+    bondingCurve,
+    associatedBondingCurve: getAssociatedBondingCurveAddress(
+      mint,
+      bondingCurve
+    ),
+    virtualTokenReserves: data.readBigUInt64LE(8),
+    virtualSolReserves: data.readBigUInt64LE(16),
+    realTokenReserves: data.readBigUInt64LE(24),
+    realSolReserves: data.readBigUInt64LE(32),
+    tokenTotalSupply: data.readBigUInt64LE(40),
+    complete: data.readUInt8(48) !== 0,
+  };
+  return state;
+}
+
+// Encode [state] in the BondingCurve account layout, the reverse of decodeBondingCurve
+export function encodeBondingCurve(state: BondingCurveStateType) {
+  const data = Buffer.alloc(49);
+  data.writeBigUInt64LE(BONDING_CURVE_DISCRIMINATOR, 0);
+  data.writeBigUInt64LE(state.virtualTokenReserves, 8);
+  data.writeBigUInt64LE(state.virtualSolReserves, 16);
+  data.writeBigUInt64LE(state.realTokenReserves, 24);
+  data.writeBigUInt64LE(state.realSolReserves, 32);
+  data.writeBigUInt64LE(state.tokenTotalSupply, 40);
+  data.writeUInt8(state.complete ? 1 : 0, 48);
+  return data;
+}
+
+// Fetch and decode the bonding curve of [tokenMint] straight from the chain
+export async function getBondingCurveState(
+  connection: Connection,
+  tokenMint: string | PublicKey,
+  commitment: Commitment = "confirmed"
+) {
+  const mint = new PublicKey(tokenMint);
+  const bondingCurve = getBondingCurveAddress(mint);
+  const accountInfo = await connection.getAccountInfo(bondingCurve, commitment);
+
+  if (!accountInfo) {
+    throw new Error(`Bonding curve ${bondingCurve} not found for ${mint}`);
+  }
+  if (!accountInfo.owner.equals(new PublicKey(PUMP_FUN_PROGRAM))) {
+    throw new Error(`Bonding curve ${bondingCurve} is not owned by pump.fun`);
+  }
+
+  return decodeBondingCurve(mint, accountInfo.data);
+}
@@ -0,0 +1,142 @@
+import { PublicKey } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import { getConfig } from "./config";
+import { PAUSED_FILE, WalletInfoType } from "./utils";
+
+export const CAMPAIGNS_FILE = path.join(__dirname, "campaigns.json");
+export const DEFAULT_CAMPAIGN = "default";
+
+export type CampaignType = {
+  name: string;
+  mint: string;
+  wallets: string[]; // public keys from the wallets file, empty for all wallets
+  solBuyMin: number;
+  solBuyMax: number;
+  stateFile: string; // paused state of this campaign
+};
+
+// Campaign built from the configured token, covering all wallets and using paused.json
+export function getDefaultCampaign(): CampaignType {
+  const config = getConfig();
+  return {
+    name: DEFAULT_CAMPAIGN,
+    mint: config.tokenMint,
+    wallets: [],
+    solBuyMin: config.solBuyMin,
+    solBuyMax: config.solBuyMax,
+    stateFile: PAUSED_FILE,
+  };
+}
+
+// Read list of campaigns from the campaigns.json
+export function getCampaignsFromFile(): CampaignType[] {
+  try {
+    if (!fs.existsSync(CAMPAIGNS_FILE)) {
+      return [];
+    }
+    return JSON.parse(fs.readFileSync(CAMPAIGNS_FILE, "utf8"));
+  } catch (err) {
+    console.error("Error in reading from campaigns file: ", err);
+    return [];
+  }
+}
+
+// Write list of campaigns to the campaigns.json
+export function storeCampaignsToFile(campaigns: CampaignType[]) {
+  try {
+    fs.writeFileSync(CAMPAIGNS_FILE, JSON.stringify(campaigns, null, 2));
+  } catch (err) {
+    console.error("Error in writing to campaigns file: ", err);
+    throw err;
+  }
+}
+
+// Find campaign [name], the default campaign being always available
+export function getCampaign(name = DEFAULT_CAMPAIGN) {
+  if (name === DEFAULT_CAMPAIGN) {
+    return getDefaultCampaign();
+  }
+
+  const campaign = getCampaignsFromFile().find(
+    (campaign) => campaign.name === name
+  );
+  if (!campaign) {
+    throw new Error(`Campaign ${name} does not exist.`);
+  }
+  return campaign;
+}
+
+// Add campaign [name] trading [mint] with the selected [wallets]
+export function createCampaign(
+  name: string,
+  mint: string,
+  wallets: string[],
+  solBuyMin: number,
+  solBuyMax: number
+) {
+  if (!/^[\w-]+$/.test(name) || name === DEFAULT_CAMPAIGN) {
+    throw new Error(
+      `Invalid campaign name "${name}": use letters, digits, "-" and "_".`
+    );
+  }
+  if (!(solBuyMin > 0) || solBuyMax < solBuyMin) {
+    throw new Error("Invalid amount range for the campaign.");
+  }
+
+  const campaigns = getCampaignsFromFile();
+  if (campaigns.some((campaign) => campaign.name === name)) {
+    throw new Error(`Campaign ${name} already exists.`);
+  }
+
+  const campaign: CampaignType = {
+    name,
+    mint: new PublicKey(mint).toBase58(),
+    wallets,
+    solBuyMin,
+    solBuyMax,
+    stateFile: path.join(__dirname, `paused-${name}.json`),
+  };
+  storeCampaignsToFile([...campaigns, campaign]);
+
+  console.log(`Campaign ${name} created for ${campaign.mint}`);
+  return campaign;
+}
+
+// Pick the wallets of [campaign] out of all generated wallets
+export function getCampaignWallets(
+  campaign: CampaignType,
+  wallets: WalletInfoType[]
+) {
+  if (campaign.wallets.length === 0) {
+    return wallets;
+  }
+  return wallets.filter((wallet) =>
+    campaign.wallets.includes(wallet.publicKey)
+  );
+}
+
+// Parse a wallet selection like "0-4,7" into indices of the wallets file
+export function parseWalletSelection(selection: string, total: number) {
+  const indices = new Set<number>();
+
+  for (const part of selection.split(",")) {
+    const match = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid wallet selection: ${part}`);
+    }
+
+    const from = Number(match[1]);
+    const to = match[2] !== undefined ? Number(match[2]) : from;
+    if (to < from || to >= total) {
+      throw new Error(
+        `Wallet selection ${part} is out of range 0-${total - 1}`
+      );
+    }
+    for (let index = from; index <= to; index++) {
+      indices.add(index);
+    }
+  }
+
+  return Array.from(indices).sort((a, b) => a - b);
+}
@@ -0,0 +1,268 @@
+import minimist from "minimist";
+import { ConfigOverridesType, ConfigType } from "./config";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1; // the command ran but did not complete
+export const EXIT_USAGE = 2; // bad subcommand or flags
+
+export const COMMANDS = [
+  "generate",
+  "recover",
+  "buy",
+  "sell",
+  "resume",
+  "watch",
+  "trades",
+  "balances",
+  "sweep",
+  "report",
+  "campaign",
+] as const;
+
+export const CAMPAIGN_ACTIONS = ["list", "create"] as const;
+
+export type CampaignActionType = (typeof CAMPAIGN_ACTIONS)[number];
+
+export type CommandType = (typeof COMMANDS)[number];
+
+export type CliOptionsType = {
+  command?: CommandType;
+  campaignAction?: CampaignActionType;
+  campaign?: string;
+  name?: string;
+  select?: string;
+  config?: string;
+  profile?: string;
+  mint?: string;
+  rpc?: string;
+  slippage?: number;
+  priorityFee?: number;
+  feeMode?: string;
+  sellMode?: string;
+  percent?: number;
+  amount?: number;
+  wallets?: string;
+  export?: string;
+  json: boolean;
+  count?: number;
+  min?: number;
+  max?: number;
+  mnemonic: boolean;
+  extend: boolean;
+  dryRun: boolean;
+  help: boolean;
+};
+
+export const USAGE = `Usage: npm start -- [command] [flags]
+
+Without a command the interactive menu is started.
+
+Commands:
+  generate --count <n> [--mnemonic] [--extend]   Create sub-wallets
+  recover                                        Add funded wallets derived from MNEMONIC or seed.json to the wallets file
+  buy [--min <sol>] [--max <sol>]                Fund sub-wallets and buy
+  sell [--mode consolidate|direct] [--percent <n> | --amount <tokens>]
+                                                 Sell tokens, by default all of them after consolidating
+  resume                                         Resume interrupted runs and a paused buying process
+  watch                                          Sell on take-profit, stop-loss, trailing-stop or time exit
+  trades                                         Stream buys and sells of the token until Ctrl+C
+  balances                                       Show balances, supply share and sell quote of every wallet
+  sweep                                          Close token accounts and send all SOL back to the main wallet
+  report [--export <file>]                       Show realized and unrealized PnL per run and wallet
+  campaign list                                  List campaigns
+  campaign create --name <name> --mint <address> [--select 0-4,7] [--min <sol>] [--max <sol>]
+                                                 Create a campaign on a subset of wallets
+
+Flags:
+  --config <file>      Config file (default bot.config.json/.yaml)
+  --profile <name>     Named profile from the config file
+  --mint <address>     Target token mint
+  --rpc <url>          RPC endpoint
+  --slippage <pct>     Allowed slippage in percent
+  --priority-fee <n>   Compute unit price in microLamports (floor outside fixed mode)
+  --fee-mode <mode>    Priority fee mode: fixed, percentile or escalating
+  --mode <mode>        Sell mode: consolidate into the first wallet, or direct from every wallet
+  --percent <n>        Percent of each wallet's tokens to sell
+  --amount <tokens>    Tokens to sell per wallet
+  --wallets <file>     Wallets file
+  --campaign <name>    Run buy, sell, resume, watch, trades or report for a campaign
+  --export <file>      Write the report as CSV (.csv) or JSON
+  --dry-run            Simulate every transaction on a fork of the chain and print projected balances
+  --json               Print the result as JSON on stdout, logs go to stderr
+  -h, --help           Show this help`;
+
+export class CliUsageError extends Error {}
+
+// Parse a number flag, rejecting anything that is not a finite number
+function parseNumberFlag(name: string, value: unknown) {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  // minimist gives a number, a string it could not read as one, or true for a bare flag
+  const parsed =
+    typeof value === "number" ||
+    (typeof value === "string" && value.trim() !== "")
+      ? Number(value)
+      : NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new CliUsageError(`--${name} must be a number.`);
+  }
+  return parsed;
+}
+
+// Parse a string flag, rejecting flags given without a value
+function parseStringFlag(name: string, value: unknown) {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || value.length === 0) {
+    throw new CliUsageError(`--${name} needs a value.`);
+  }
+  return value;
+}
+
+const STRING_FLAGS = [
+  "config",
+  "profile",
+  "mint",
+  "rpc",
+  "wallets",
+  "campaign",
+  "name",
+  "select",
+  "fee-mode",
+  "export",
+  "mode",
+];
+
+const BOOLEAN_FLAGS = ["json", "mnemonic", "extend", "dry-run", "help"];
+
+const NUMBER_FLAGS = [
+  "slippage",
+  "priority-fee",
+  "percent",
+  "amount",
+  "count",
+  "min",
+  "max",
+];
+
+// Parse process arguments into a subcommand and its flags
+export function parseCliArgs(argv: string[]): CliOptionsType {
+  const args = minimist(argv, {
+    string: STRING_FLAGS,
+    boolean: BOOLEAN_FLAGS,
+    alias: { h: "help" },
+  });
+
+  // minimist keeps misspelled flags as if they were meant, so `--precent 50` would sell everything
+  const known = new Set([
+    "_",
+    "h",
+    ...STRING_FLAGS,
+    ...BOOLEAN_FLAGS,
+    ...NUMBER_FLAGS,
+  ]);
+  const unknown = Object.keys(args).filter((flag) => !known.has(flag));
+  if (unknown.length > 0) {
+    throw new CliUsageError(
+      `Unknown flag${unknown.length > 1 ? "s" : ""}: ${unknown
+        .map((flag) => (flag.length === 1 ? `-${flag}` : `--${flag}`))
+        .join(", ")}`
+    );
+  }
+
+  const [command, ...rest] = args._.map(String);
+  if (command !== undefined && !COMMANDS.includes(command as CommandType)) {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+
+  let campaignAction: CampaignActionType | undefined;
+  if (command === "campaign") {
+    campaignAction = rest.shift() as CampaignActionType;
+    if (!CAMPAIGN_ACTIONS.includes(campaignAction)) {
+      throw new CliUsageError(
+        `campaign needs one of: ${CAMPAIGN_ACTIONS.join(", ")}`
+      );
+    }
+  }
+  if (rest.length > 0) {
+    throw new CliUsageError(`Unexpected arguments: ${rest.join(" ")}`);
+  }
+
+  const options: CliOptionsType = {
+    command: command as CommandType | undefined,
+    campaignAction,
+    campaign: parseStringFlag("campaign", args.campaign),
+    name: parseStringFlag("name", args.name),
+    select: parseStringFlag("select", args.select),
+    config: parseStringFlag("config", args.config),
+    profile: parseStringFlag("profile", args.profile),
+    mint: parseStringFlag("mint", args.mint),
+    rpc: parseStringFlag("rpc", args.rpc),
+    slippage: parseNumberFlag("slippage", args.slippage),
+    priorityFee: parseNumberFlag("priority-fee", args["priority-fee"]),
+    feeMode: parseStringFlag("fee-mode", args["fee-mode"]),
+    sellMode: parseStringFlag("mode", args.mode),
+    percent: parseNumberFlag("percent", args.percent),
+    amount: parseNumberFlag("amount", args.amount),
+    wallets: parseStringFlag("wallets", args.wallets),
+    export: parseStringFlag("export", args.export),
+    json: !!args.json,
+    count: parseNumberFlag("count", args.count),
+    min: parseNumberFlag("min", args.min),
+    max: parseNumberFlag("max", args.max),
+    mnemonic: !!args.mnemonic,
+    extend: !!args.extend,
+    dryRun: !!args["dry-run"],
+    help: !!args.help,
+  };
+
+  if (options.command === "generate" && !options.help) {
+    if (
+      !options.count ||
+      options.count <= 0 ||
+      !Number.isInteger(options.count)
+    ) {
+      throw new CliUsageError(
+        "generate needs --count with a positive integer."
+      );
+    }
+  }
+  if (
+    options.percent !== undefined &&
+    (options.percent <= 0 || options.percent > 100)
+  ) {
+    throw new CliUsageError("--percent must be above 0 and at most 100.");
+  }
+  if (options.amount !== undefined && options.amount <= 0) {
+    throw new CliUsageError("--amount must be a positive number.");
+  }
+  if (options.percent !== undefined && options.amount !== undefined) {
+    throw new CliUsageError("--percent and --amount cannot be combined.");
+  }
+  if (campaignAction === "create" && (!options.name || !options.mint)) {
+    throw new CliUsageError("campaign create needs --name and --mint.");
+  }
+
+  return options;
+}
+
+// Config settings given by flags, which take precedence over env vars and the config file
+export function getConfigOverrides(
+  options: CliOptionsType
+): ConfigOverridesType {
+  return {
+    configFile: options.config,
+    profile: options.profile,
+    tokenMint: options.mint,
+    rpcUrl: options.rpc,
+    slippage: options.slippage,
+    solBuyMin: options.min,
+    solBuyMax: options.max,
+    priorityFee: options.priorityFee,
+    feeMode: options.feeMode as ConfigType["feeMode"],
+    sellMode: options.sellMode as ConfigType["sellMode"],
+  };
+}
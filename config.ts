@@ -0,0 +1,458 @@
+import { PublicKey } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import {
+  PAUSE_ON_INTERRUPTION,
+  CONCURRENCY,
+  DUST_MODE,
+  FEE_ESCALATION,
+  FEE_MODE,
+  FEE_PERCENTILE,
+  EXIT_AFTER,
+  EXIT_SELL_PERCENT,
+  LOCAL_VALIDATOR,
+  MAX_PRICE_IMPACT,
+  PRIORITY_FEE,
+  PRIVATE_KEY,
+  BROADCAST_ENDPOINTS,
+  RPC_ENDPOINTS,
+  RPC_RATE,
+  RPC_URL,
+  SELL_MODE,
+  SLIPPAGE,
+  SOL_BUY_MAX,
+  SOL_BUY_MIN,
+  SOL_RENT,
+  STOP_LOSS,
+  TAKE_PROFIT,
+  TASK_RETRIES,
+  TOKEN_MINT,
+  TRAILING_STOP,
+  UNIT_BUDGET,
+  UNIT_PRICE,
+  WATCH_INTERVAL,
+} from "./constants";
+
+export const FEE_MODES = ["fixed", "percentile", "escalating"] as const;
+
+export type FeeModeType = (typeof FEE_MODES)[number];
+
+export const SELL_MODES = ["consolidate", "direct"] as const;
+
+export type SellModeType = (typeof SELL_MODES)[number];
+
+export const DUST_MODES = ["transfer", "burn"] as const;
+
+export type DustModeType = (typeof DUST_MODES)[number];
+
+// One endpoint of the RPC pool, picked in proportion to [weight] among the healthy ones
+export type RpcEndpointType = {
+  url: string;
+  weight: number;
+};
+
+export type ConfigType = {
+  privateKey: string;
+  tokenMint: string;
+  rpcUrl: string;
+  rpcEndpoints: RpcEndpointType[];
+  broadcastEndpoints: number;
+  slippage: number;
+  solBuyMin: number;
+  solBuyMax: number;
+  priorityFee: number;
+  feeMode: FeeModeType;
+  feePercentile: number;
+  feeEscalation: number;
+  solRent: number;
+  pauseOnInterruption: boolean;
+  sellMode: SellModeType;
+  dustMode: DustModeType;
+  maxPriceImpact: number;
+  takeProfit: number;
+  stopLoss: number;
+  trailingStop: number;
+  exitAfter: number;
+  exitSellPercent: number;
+  watchInterval: number;
+  concurrency: number;
+  rpcRate: number;
+  taskRetries: number;
+  localValidator: boolean;
+  unitPrice: number;
+  unitBudget: number;
+};
+
+export type ConfigOverridesType = Partial<ConfigType> & {
+  configFile?: string;
+  profile?: string;
+};
+
+type ConfigKeyType = keyof ConfigType;
+
+type FieldType = {
+  env: string;
+  kind: "string" | "number" | "boolean" | "address" | "url" | "endpoints";
+  min?: number;
+  max?: number;
+  values?: readonly string[]; // allowed values of a string setting
+};
+
+// Every setting with the environment variable that overrides it
+const SCHEMA: Record<ConfigKeyType, FieldType> = {
+  privateKey: { env: "PRIVATE_KEY", kind: "string" },
+  tokenMint: { env: "TOKEN_MINT", kind: "address" },
+  rpcUrl: { env: "RPC_URL", kind: "url" },
+  rpcEndpoints: { env: "RPC_ENDPOINTS", kind: "endpoints" },
+  broadcastEndpoints: { env: "BROADCAST_ENDPOINTS", kind: "number", min: 1 },
+  slippage: { env: "SLIPPAGE", kind: "number", min: 0, max: 100 },
+  solBuyMin: { env: "SOL_BUY_MIN", kind: "number", min: 0 },
+  solBuyMax: { env: "SOL_BUY_MAX", kind: "number", min: 0 },
+  priorityFee: { env: "PRIORITY_FEE", kind: "number", min: 0 },
+  feeMode: { env: "FEE_MODE", kind: "string", values: FEE_MODES },
+  feePercentile: { env: "FEE_PERCENTILE", kind: "number", min: 0, max: 100 },
+  feeEscalation: { env: "FEE_ESCALATION", kind: "number", min: 1 },
+  solRent: { env: "SOL_RENT", kind: "number", min: 0 },
+  pauseOnInterruption: { env: "PAUSE_ON_INTERRUPTION", kind: "boolean" },
+  sellMode: { env: "SELL_MODE", kind: "string", values: SELL_MODES },
+  dustMode: { env: "DUST_MODE", kind: "string", values: DUST_MODES },
+  maxPriceImpact: {
+    env: "MAX_PRICE_IMPACT",
+    kind: "number",
+    min: 0,
+    max: 100,
+  },
+  takeProfit: { env: "TAKE_PROFIT", kind: "number", min: 0 },
+  stopLoss: { env: "STOP_LOSS", kind: "number", min: 0, max: 100 },
+  trailingStop: { env: "TRAILING_STOP", kind: "number", min: 0, max: 100 },
+  exitAfter: { env: "EXIT_AFTER", kind: "number", min: 0 },
+  exitSellPercent: {
+    env: "EXIT_SELL_PERCENT",
+    kind: "number",
+    min: 0,
+    max: 100,
+  },
+  watchInterval: { env: "WATCH_INTERVAL", kind: "number", min: 1 },
+  concurrency: { env: "CONCURRENCY", kind: "number", min: 1 },
+  rpcRate: { env: "RPC_RATE", kind: "number", min: 0 },
+  taskRetries: { env: "TASK_RETRIES", kind: "number", min: 0 },
+  localValidator: { env: "LOCAL_VALIDATOR", kind: "boolean" },
+  unitPrice: { env: "UNIT_PRICE", kind: "number", min: 0 },
+  unitBudget: { env: "UNIT_BUDGET", kind: "number", min: 0 },
+};
+
+// Values from constants.ts, used when nothing else sets a key
+const DEFAULTS: ConfigType = {
+  privateKey: PRIVATE_KEY,
+  tokenMint: TOKEN_MINT,
+  rpcUrl: RPC_URL,
+  rpcEndpoints: RPC_ENDPOINTS,
+  broadcastEndpoints: BROADCAST_ENDPOINTS,
+  slippage: SLIPPAGE,
+  solBuyMin: SOL_BUY_MIN,
+  solBuyMax: SOL_BUY_MAX,
+  priorityFee: PRIORITY_FEE,
+  feeMode: FEE_MODE as FeeModeType,
+  feePercentile: FEE_PERCENTILE,
+  feeEscalation: FEE_ESCALATION,
+  solRent: SOL_RENT,
+  pauseOnInterruption: PAUSE_ON_INTERRUPTION,
+  sellMode: SELL_MODE as SellModeType,
+  dustMode: DUST_MODE as DustModeType,
+  maxPriceImpact: MAX_PRICE_IMPACT,
+  takeProfit: TAKE_PROFIT,
+  stopLoss: STOP_LOSS,
+  trailingStop: TRAILING_STOP,
+  exitAfter: EXIT_AFTER,
+  exitSellPercent: EXIT_SELL_PERCENT,
+  watchInterval: WATCH_INTERVAL,
+  concurrency: CONCURRENCY,
+  rpcRate: RPC_RATE,
+  taskRetries: TASK_RETRIES,
+  localValidator: LOCAL_VALIDATOR,
+  unitPrice: UNIT_PRICE,
+  unitBudget: UNIT_BUDGET,
+};
+
+const CONFIG_FILE_NAMES = [
+  "bot.config.json",
+  "bot.config.yaml",
+  "bot.config.yml",
+];
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly problems: string[],
+    source?: string
+  ) {
+    super(
+      `Invalid configuration${source ? ` in ${source}` : ""}:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+let currentConfig: ConfigType | undefined;
+let currentProfile: string | undefined;
+
+// Find the config file given by flag or env, otherwise the first default name that exists
+function findConfigFile(configFile?: string) {
+  const explicit = configFile || process.env.BOT_CONFIG;
+  if (explicit) {
+    if (!fs.existsSync(explicit)) {
+      throw new ConfigError([`config file ${explicit} does not exist`]);
+    }
+    return path.resolve(explicit);
+  }
+
+  for (const directory of [process.cwd(), __dirname]) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const file = path.join(directory, name);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+  }
+}
+
+type SettingsType = Record<string, unknown>;
+
+function isMapping(value: unknown): value is SettingsType {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Parse a JSON or YAML config file
+function readConfigFile(file: string): SettingsType {
+  const text = fs.readFileSync(file, "utf8");
+  try {
+    const data: unknown = file.endsWith(".json")
+      ? JSON.parse(text)
+      : YAML.parse(text);
+    if (data === null || data === undefined) {
+      return {};
+    }
+    if (!isMapping(data)) {
+      throw new Error("top level must be a mapping of settings");
+    }
+    return data;
+  } catch (err) {
+    throw new ConfigError(
+      [err instanceof Error ? err.message : String(err)],
+      file
+    );
+  }
+}
+
+// Read RPC endpoints from a comma separated "url|weight" string or a list of such strings
+// and { url, weight } mappings, undefined when any entry is malformed
+function parseEndpoints(value: unknown): RpcEndpointType[] | undefined {
+  const entries: unknown =
+    typeof value === "string"
+      ? value.split(/[\s,]+/).filter((entry) => entry !== "")
+      : value;
+  if (!Array.isArray(entries)) {
+    return undefined;
+  }
+
+  const endpoints: RpcEndpointType[] = [];
+  for (const entry of entries) {
+    let url: unknown = entry;
+    let weight: unknown = 1;
+    if (typeof entry === "string" && entry.includes("|")) {
+      [url, weight] = entry.split("|");
+      weight = Number(weight);
+    } else if (isMapping(entry)) {
+      url = entry.url;
+      weight = entry.weight ?? 1;
+    }
+    if (
+      typeof url !== "string" ||
+      !/^https?:\/\/\S+$/.test(url) ||
+      typeof weight !== "number" ||
+      !(weight > 0)
+    ) {
+      return undefined;
+    }
+    endpoints.push({ url, weight });
+  }
+  return endpoints;
+}
+
+// Convert and check [value] for [key], returning a problem description if it is invalid
+function validateField(
+  key: ConfigKeyType,
+  value: unknown,
+  source: string
+): { value?: unknown; problem?: string } {
+  const field = SCHEMA[key];
+  const describe = (expected: string) =>
+    `${key} (from ${source}) must be ${expected}, got ${JSON.stringify(value)}`;
+
+  if (field.kind === "number") {
+    const parsed = typeof value === "string" ? Number(value) : value;
+    if (
+      typeof parsed !== "number" ||
+      !Number.isFinite(parsed) ||
+      (typeof value === "string" && value.trim() === "")
+    ) {
+      return { problem: describe("a number") };
+    }
+    if (
+      (field.min !== undefined && parsed < field.min) ||
+      (field.max !== undefined && parsed > field.max)
+    ) {
+      return {
+        problem: describe(
+          `between ${field.min ?? "-infinity"} and ${field.max ?? "infinity"}`
+        ),
+      };
+    }
+    return { value: parsed };
+  }
+
+  if (field.kind === "boolean") {
+    if (typeof value === "boolean") {
+      return { value };
+    }
+    if (value === "true" || value === "1") {
+      return { value: true };
+    }
+    if (value === "false" || value === "0") {
+      return { value: false };
+    }
+    return { problem: describe("true or false") };
+  }
+
+  if (field.kind === "endpoints") {
+    const endpoints = parseEndpoints(value);
+    return endpoints
+      ? { value: endpoints }
+      : {
+          problem: describe(
+            'a list of http(s) URLs, each as "url" or "url|weight"'
+          ),
+        };
+  }
+
+  if (typeof value !== "string") {
+    return { problem: describe("a string") };
+  }
+
+  if (field.kind === "address") {
+    try {
+      new PublicKey(value);
+    } catch {
+      return { problem: describe("a base58 Solana address") };
+    }
+  }
+  if (field.values && !field.values.includes(value)) {
+    return { problem: describe(`one of ${field.values.join(", ")}`) };
+  }
+  if (field.kind === "url" && !/^https?:\/\/\S+$/.test(value)) {
+    return { problem: describe("an http(s) URL") };
+  }
+
+  return { value };
+}
+
+// Validate a mapping of settings from one source, collecting every problem at once
+function applyLayer(
+  config: SettingsType,
+  layer: SettingsType,
+  source: string,
+  problems: string[]
+) {
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!(key in SCHEMA)) {
+      problems.push(`unknown setting "${key}" in ${source}`);
+      continue;
+    }
+
+    const result = validateField(key as ConfigKeyType, value, source);
+    if (result.problem) {
+      problems.push(result.problem);
+    } else {
+      config[key] = result.value;
+    }
+  }
+}
+
+// Load configuration with precedence: CLI flags > env vars > profile > config file > constants.ts
+export function loadConfig(overrides: ConfigOverridesType = {}) {
+  const { configFile, profile: profileFlag, ...flags } = overrides;
+  const problems: string[] = [];
+  const config: SettingsType = { ...DEFAULTS };
+
+  const file = findConfigFile(configFile);
+  const fileData = file ? readConfigFile(file) : {};
+  const { profiles = {}, defaultProfile, ...baseSettings } = fileData;
+  if (!isMapping(profiles)) {
+    throw new ConfigError(
+      ["profiles must be a mapping of profile names"],
+      file
+    );
+  }
+
+  applyLayer(config, baseSettings, path.basename(file ?? "config"), problems);
+
+  const profile =
+    profileFlag ||
+    process.env.BOT_PROFILE ||
+    (typeof defaultProfile === "string" ? defaultProfile : undefined);
+  if (profile) {
+    const profileSettings = profiles[profile];
+    if (!isMapping(profileSettings)) {
+      const known = Object.keys(profiles);
+      problems.push(
+        `profile "${profile}" is not defined${
+          known.length > 0 ? ` (available: ${known.join(", ")})` : ""
+        }`
+      );
+    } else {
+      applyLayer(config, profileSettings, `profile ${profile}`, problems);
+    }
+  }
+
+  const envLayer: SettingsType = {};
+  for (const [key, field] of Object.entries(SCHEMA)) {
+    if (process.env[field.env] !== undefined && process.env[field.env] !== "") {
+      envLayer[key] = process.env[field.env];
+    }
+  }
+  applyLayer(config, envLayer, "environment", problems);
+  applyLayer(config, flags, "command line", problems);
+
+  // Every key started from DEFAULTS and only validated values replaced it
+  const loaded = config as ConfigType;
+  if (loaded.solBuyMax < loaded.solBuyMin) {
+    problems.push(
+      `solBuyMax (${loaded.solBuyMax}) must not be lower than solBuyMin (${loaded.solBuyMin})`
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems, file);
+  }
+
+  currentConfig = loaded;
+  currentProfile = profile;
+  return currentConfig;
+}
+
+// Get the loaded configuration, loading it from file and env on first use
+export function getConfig() {
+  if (!currentConfig) {
+    loadConfig();
+  }
+  return currentConfig!;
+}
+
+export function getProfileName() {
+  return currentProfile;
+}
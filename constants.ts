@@ -4,15 +4,35 @@ export const PRIVATE_KEY = process.env.PRIVATE_KEY || ""; // private key of main
 export const TOKEN_MINT = "Db34g818Gt5JqJAAsNbMZA3qpEFtBuHQHPqBRiyTpump"; // address of target token
 export const SOLANA_TOKEN = "11111111111111111111111111111111"; // address of SOL
 export const RPC_URL = "https://api.mainnet-beta.solana.com";
+export const RPC_ENDPOINTS: { url: string; weight: number }[] = []; // pool replacing RPC_URL, set as "url|weight,url|weight"
+export const BROADCAST_ENDPOINTS = 2; // healthiest endpoints of the pool every transaction is sent to
 export const SLIPPAGE = 5; // 5 % : allowed slippage in trading
 // export const SOL_BUY_MIN = 0.1; // min SOL amount to send to each wallet
 // export const SOL_BUY_MAX = 0.5; // max SOL amount to send to each wallet
 export const SOL_BUY_MIN = 0.01;
 export const SOL_BUY_MAX = 0.02;
-export const PRIORITY_FEE = 0;
+export const PRIORITY_FEE = 0; // microLamports per compute unit in fixed mode, floor of the other modes
+export const FEE_MODE = "fixed"; // fixed | percentile | escalating
+export const FEE_PERCENTILE = 75; // percentile of recent fees paid for the same accounts
+export const FEE_ESCALATION = 1.5; // multiplier applied on every rebuild in escalating mode
 export const SOL_RENT = 0.0015; // minimum balance to remain in solana account
 export const PAUSE_ON_INTERRUPTION = false; // true: pause process of buying the token when other transactions interfere
+export const SELL_MODE = "consolidate"; // consolidate | direct : sell from the first wallet after collecting, or from every wallet
+export const DUST_MODE = "transfer"; // transfer | burn : what sweep does with tokens left in sub-wallets before closing their accounts
+export const MAX_PRICE_IMPACT = 0; // % : sells above this impact are split into tranches, 0 sells in one order
+export const TAKE_PROFIT = 0; // % gain over cost basis that sells, 0 disables
+export const STOP_LOSS = 0; // % loss under cost basis that sells, 0 disables
+export const TRAILING_STOP = 0; // % drop from the highest value seen that sells, 0 disables
+export const EXIT_AFTER = 0; // minutes after the last buy run that sell, 0 disables
+export const EXIT_SELL_PERCENT = 100; // % of each wallet's tokens sold when an exit rule triggers
+export const WATCH_INTERVAL = 5; // seconds between bonding curve polls of the exit watcher
+export const CONCURRENCY = 4; // wallets funded, bought or sold at the same time
+export const RPC_RATE = 10; // RPC requests per second, the public mainnet endpoint allows 100 per 10 seconds, 0 disables
+export const TASK_RETRIES = 2; // extra attempts with backoff after a send fails for a reason other than the program
+export const LOCAL_VALIDATOR = false; // true: boot solana-test-validator with the mock pump.fun program before running
 export const PUMP_FUN_PROGRAM = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+export const PUMP_SWAP_PROGRAM = "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"; // AMM that completed curves migrate to
+export const PUMP_FEE_PROGRAM = "pfeeUxB6jkeY1Hxd7CsFCAjcbHA9rWtchMGdZ6VojVZ";
 export const GLOBAL = "4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf";
 export const FEE_RECIPIENT = "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM";
 export const SYSTEM_PROGRAM = "11111111111111111111111111111111";
@@ -21,6 +41,10 @@ export const ASSOC_TOKEN_ACC_PROG =
   "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
 export const RENT = "SysvarRent111111111111111111111111111111111";
 export const EVENT_AUTHORITY = "Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1";
+export const MINT_AUTHORITY = "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM";
+export const MPL_TOKEN_METADATA = "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
 export const SOL = "So11111111111111111111111111111111111111112";
-export const UNIT_PRICE = 10_000_000;
+export const UNIT_PRICE = 10_000_000; // cap of the compute unit price in microLamports
 export const UNIT_BUDGET = 1_000_000;
+export const TOKEN_DECIMALS = 6; // every pump.fun token is minted with 6 decimals
+export const FEE_BASIS_POINTS = 100; // 1 % : protocol fee charged by pump.fun on every trade
@@ -0,0 +1,134 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  AccountLayout,
+  MintLayout,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { decodeBondingCurve, getBondingCurveAddress } from "./bondingCurve";
+import { describeVenue, findDexPool, TradingVenueType } from "./dex";
+import { getSellQuote } from "./quote";
+import { connection } from "./utils";
+
+// getMultipleAccountsInfo accepts at most this many addresses per call
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+export type PositionType = {
+  publicKey: string;
+  label?: string;
+  sol: number;
+  tokens: number;
+  supplyShare: number; // % of the total token supply
+  quote: number; // SOL received for selling every token of this wallet alone
+};
+
+export type DashboardType = {
+  mint: string;
+  venue: string;
+  supply: number;
+  positions: PositionType[];
+  totals: Omit<PositionType, "publicKey" | "label">; // quote sells every token at once
+};
+
+// Fetch [addresses] in as few calls as the RPC allows, in order
+async function getAccountsInBatches(addresses: PublicKey[]) {
+  const accounts = [];
+  for (
+    let start = 0;
+    start < addresses.length;
+    start += MAX_ACCOUNTS_PER_CALL
+  ) {
+    accounts.push(
+      ...(await connection.getMultipleAccountsInfo(
+        addresses.slice(start, start + MAX_ACCOUNTS_PER_CALL)
+      ))
+    );
+  }
+  return accounts;
+}
+
+function round(value: number, decimals: number) {
+  const scale = Math.pow(10, decimals);
+  return Math.round(value * scale) / scale;
+}
+
+// SOL and token balances of [wallets] with their share of supply and current sell
+// quote, read together with the mint and bonding curve in batched calls
+export async function buildDashboard(
+  wallets: { publicKey: string; label?: string }[],
+  mint: string
+): Promise<DashboardType> {
+  const mintAddress = new PublicKey(mint);
+  const owners = wallets.map((wallet) => new PublicKey(wallet.publicKey));
+  const [mintAccount, curveAccount, ...accounts] = await getAccountsInBatches([
+    mintAddress,
+    getBondingCurveAddress(mintAddress),
+    ...owners.flatMap((owner) => [
+      owner,
+      getAssociatedTokenAddressSync(mintAddress, owner, true),
+    ]),
+  ]);
+  if (!mintAccount) {
+    throw new Error(`Token mint ${mint} was not found.`);
+  }
+  const { supply, decimals } = MintLayout.decode(mintAccount.data);
+
+  // A completed curve hands the quotes over to the pool the token migrated to
+  const curve = curveAccount
+    ? decodeBondingCurve(mintAddress, curveAccount.data)
+    : undefined;
+  let venue: TradingVenueType = { kind: "none" };
+  if (curve && !curve.complete) {
+    venue = { kind: "curve" };
+  } else if (curve) {
+    const found = await findDexPool(mintAddress);
+    venue = found ? { kind: "dex", ...found } : venue;
+  }
+  const quote = (amount: bigint) => {
+    if (venue.kind === "curve") {
+      return getSellQuote(curve!, amount).solOut;
+    }
+    if (venue.kind === "dex") {
+      return venue.adapter.getSellQuote(venue.pool, amount).solOut;
+    }
+    return BigInt(0);
+  };
+
+  const amounts = wallets.map((_wallet, index) => {
+    const tokenAccount = accounts[index * 2 + 1];
+    return tokenAccount
+      ? AccountLayout.decode(tokenAccount.data).amount
+      : BigInt(0);
+  });
+  const positions = wallets.map((wallet, index) => {
+    const solAccount = accounts[index * 2];
+    const amount = amounts[index];
+    return {
+      publicKey: wallet.publicKey,
+      label: wallet.label,
+      sol: round((solAccount?.lamports ?? 0) / LAMPORTS_PER_SOL, 9),
+      tokens: round(Number(amount) / Math.pow(10, decimals), decimals),
+      supplyShare:
+        supply > BigInt(0)
+          ? round((Number(amount) / Number(supply)) * 100, 4)
+          : 0,
+      quote: round(Number(quote(amount)) / LAMPORTS_PER_SOL, 9),
+    };
+  });
+
+  const sum = (key: "sol" | "tokens" | "supplyShare") =>
+    positions.reduce((total, position) => total + position[key], 0);
+  // Per-wallet quotes do not add up, each one moves the price the next would get
+  const held = amounts.reduce((total, amount) => total + amount, BigInt(0));
+  return {
+    mint,
+    venue: describeVenue(venue),
+    supply: Number(supply) / Math.pow(10, decimals),
+    positions,
+    totals: {
+      sol: round(sum("sol"), 9),
+      tokens: round(sum("tokens"), decimals),
+      supplyShare: round(sum("supplyShare"), 4),
+      quote: round(Number(quote(held)) / LAMPORTS_PER_SOL, 9),
+    },
+  };
+}
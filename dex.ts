@@ -0,0 +1,104 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { pumpSwapAdapter } from "./pumpSwap";
+import { CurveReservesType, SellQuoteType } from "./quote";
+import { getCoinDataSource } from "./utils";
+
+// Constant product pool a migrated token trades in after its bonding curve completed
+export type PoolType = {
+  address: PublicKey;
+  mint: PublicKey;
+  solReserves: bigint; // lamports
+  tokenReserves: bigint; // raw token units
+  feeBasisPoints: number; // charged on the SOL side of a swap
+};
+
+// One AMM the bot can sell migrated tokens on
+export type DexAdapterType = {
+  name: string;
+  programId: PublicKey; // swaps through it are trades in the PnL report
+  findPool: (mint: PublicKey) => Promise<PoolType | undefined>;
+  getSellQuote: (pool: PoolType, tokenIn: bigint) => SellQuoteType;
+  buildSellInstructions: (
+    pool: PoolType,
+    user: PublicKey,
+    tokenIn: bigint,
+    minSolOutput: bigint
+  ) => Promise<TransactionInstruction[]>;
+};
+
+// Where a token trades right now: its bonding curve, an AMM pool after migration,
+// or nowhere the bot knows when the curve completed and no adapter has a pool
+export type TradingVenueType =
+  | { kind: "curve" }
+  | { kind: "dex"; adapter: DexAdapterType; pool: PoolType }
+  | { kind: "none" };
+
+let dexAdapters: DexAdapterType[] | undefined;
+
+// Registered AMMs, PumpSwap until anything else is set. Filled on first use since the
+// adapter modules import this one.
+function getDexAdapters() {
+  if (!dexAdapters) {
+    dexAdapters = [pumpSwapAdapter];
+  }
+  return dexAdapters;
+}
+
+// Add [adapter] to the AMMs searched for pools of migrated tokens, in registration order
+export function registerDexAdapter(adapter: DexAdapterType) {
+  getDexAdapters().push(adapter);
+}
+
+// Replace every registered adapter, e.g. with a fake for offline runs
+export function setDexAdapters(adapters: DexAdapterType[]) {
+  dexAdapters = [...adapters];
+}
+
+// Program ids of the registered AMMs, to tell their swaps from plain transfers
+export function getDexProgramIds() {
+  return getDexAdapters().map((adapter) => adapter.programId.toBase58());
+}
+
+// Pool reserves in the shape of curve reserves, for price impact and tranche sizing
+export function getPoolReserves(pool: PoolType): CurveReservesType {
+  return {
+    virtualSolReserves: pool.solReserves,
+    virtualTokenReserves: pool.tokenReserves,
+    realTokenReserves: pool.tokenReserves,
+  };
+}
+
+// Find the first registered AMM with a pool for [mint]
+export async function findDexPool(mint: PublicKey) {
+  for (const adapter of getDexAdapters()) {
+    const pool = await adapter.findPool(mint);
+    if (pool) {
+      return { adapter, pool };
+    }
+  }
+}
+
+// Check the completion flag of the curve of [mint] and pick where it trades
+export async function getTradingVenue(
+  mint: PublicKey | string
+): Promise<TradingVenueType> {
+  const curve = await getCoinDataSource().getBondingCurve(mint);
+  if (!curve.complete) {
+    return { kind: "curve" };
+  }
+
+  const found = await findDexPool(new PublicKey(mint));
+  return found ? { kind: "dex", ...found } : { kind: "none" };
+}
+
+// Describe [venue] in a few words for the menu and logs
+export function describeVenue(venue: TradingVenueType) {
+  switch (venue.kind) {
+    case "curve":
+      return "pump.fun bonding curve";
+    case "dex":
+      return `${venue.adapter.name} pool ${venue.pool.address.toBase58()}`;
+    case "none":
+      return "bonding curve complete, no DEX adapter has a pool";
+  }
+}
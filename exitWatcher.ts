@@ -0,0 +1,203 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { getBondingCurveAddress } from "./bondingCurve";
+import { CampaignType } from "./campaign";
+import { getConfig } from "./config";
+import { describeVenue, getTradingVenue } from "./dex";
+import { RunJournal } from "./journal";
+import { CostBasisType, getCostBasis } from "./pnl";
+import { getSellQuote } from "./quote";
+import { WalletInfoType, connection, getCoinDataSource } from "./utils";
+
+export type ExitRuleType =
+  "takeProfit" | "stopLoss" | "trailingStop" | "timeExit";
+
+// Sells [percent] % of the tokens of [wallets], resolves to false when the sell failed
+export type ExitSellType = (
+  wallets: WalletInfoType[],
+  percent: number
+) => Promise<boolean>;
+
+const RULE_NAMES: Record<ExitRuleType, string> = {
+  takeProfit: "Take profit",
+  stopLoss: "Stop loss",
+  trailingStop: "Trailing stop",
+  timeExit: "Time exit",
+};
+
+// Rules switched on in the configuration, a value of 0 disables a rule
+function getEnabledRules() {
+  const { takeProfit, stopLoss, trailingStop, exitAfter } = getConfig();
+  const rules: ExitRuleType[] = [];
+  if (takeProfit > 0) {
+    rules.push("takeProfit");
+  }
+  if (stopLoss > 0) {
+    rules.push("stopLoss");
+  }
+  if (trailingStop > 0) {
+    rules.push("trailingStop");
+  }
+  if (exitAfter > 0) {
+    rules.push("timeExit");
+  }
+  return rules;
+}
+
+// Time exits count from the start of the last buy run of [campaign]
+function getLastBuyTime(campaign: CampaignType) {
+  const buys = RunJournal.findAll(campaign.name).filter(
+    (journal) => journal.run.kind === "buy"
+  );
+  const last = buys[buys.length - 1];
+  return last ? new Date(last.run.time).getTime() : Date.now();
+}
+
+// Pick the first rule that [value] against [cost] triggers, with the peak value seen so far
+function findTriggeredRule(
+  rules: ExitRuleType[],
+  value: number,
+  cost: number,
+  peak: number,
+  since: number
+): ExitRuleType | undefined {
+  const { takeProfit, stopLoss, trailingStop, exitAfter } = getConfig();
+  const gain = cost > 0 ? ((value - cost) / cost) * 100 : 0;
+
+  return rules.find((rule) => {
+    switch (rule) {
+      case "stopLoss":
+        return gain <= -stopLoss;
+      case "takeProfit":
+        return gain >= takeProfit;
+      case "trailingStop":
+        return value <= peak * (1 - trailingStop / 100);
+      case "timeExit":
+        return Date.now() - since >= exitAfter * 60_000;
+    }
+  });
+}
+
+// Resolve after [seconds], or earlier when [account] changes
+function waitForChange(account: PublicKey, seconds: number) {
+  return new Promise<void>((resolve) => {
+    let subscription: number | undefined;
+    const done = () => {
+      clearTimeout(timer);
+      if (subscription !== undefined) {
+        connection.removeAccountChangeListener(subscription).catch(() => {});
+      }
+      resolve();
+    };
+    const timer = setTimeout(done, seconds * 1000);
+
+    // Not every connection supports subscriptions, polling covers them
+    try {
+      subscription = connection.onAccountChange(account, done, "confirmed");
+    } catch {
+      subscription = undefined;
+    }
+  });
+}
+
+// Watch the bonding curve of [campaign] and sell through [sell] when a take-profit,
+// stop-loss, trailing-stop or time exit rule triggers. Each rule fires at most once.
+export async function watchExitRules(
+  campaign: CampaignType,
+  owner: PublicKey,
+  wallets: WalletInfoType[],
+  sell: ExitSellType
+) {
+  const pending = getEnabledRules();
+  if (pending.length === 0) {
+    console.log(
+      "No exit rule is enabled, set takeProfit, stopLoss, trailingStop or exitAfter."
+    );
+    return false;
+  }
+
+  const mint = new PublicKey(campaign.mint);
+  const bondingCurve = getBondingCurveAddress(mint);
+  const since = getLastBuyTime(campaign);
+  let positions: CostBasisType[] = await getCostBasis(
+    owner,
+    wallets,
+    campaign.mint,
+    campaign.name
+  );
+  let peak = 0;
+
+  console.log(
+    `Watching ${campaign.mint} for ${pending
+      .map((rule) => RULE_NAMES[rule])
+      .join(", ")}...`
+  );
+
+  while (pending.length > 0 && positions.length > 0) {
+    // After migration positions are valued, and sold, on the token's AMM pool
+    const venue = await getTradingVenue(mint);
+    if (venue.kind === "none") {
+      console.log(`${describeVenue(venue)}, exit rules stop watching.`);
+      return false;
+    }
+    const curve = await getCoinDataSource().getBondingCurve(mint);
+    const quote = (tokens: bigint) =>
+      venue.kind === "dex"
+        ? venue.adapter.getSellQuote(venue.pool, tokens)
+        : getSellQuote(curve, tokens);
+
+    // Each wallet sells on its own, so each position is quoted on its own
+    const cost = positions.reduce((sum, position) => sum + position.cost, 0);
+    const value = positions.reduce(
+      (sum, position) => sum + Number(quote(BigInt(position.tokens)).solOut),
+      0
+    );
+    peak = Math.max(peak, value);
+    const gain = cost > 0 ? ((value - cost) / cost) * 100 : 0;
+    console.log(
+      `Value ${(value / LAMPORTS_PER_SOL).toFixed(6)} SOL, cost ${(
+        cost / LAMPORTS_PER_SOL
+      ).toFixed(6)} SOL (${gain >= 0 ? "+" : ""}${gain.toFixed(2)}%), peak ${(
+        peak / LAMPORTS_PER_SOL
+      ).toFixed(6)} SOL`
+    );
+
+    const rule = findTriggeredRule(pending, value, cost, peak, since);
+    if (!rule) {
+      await waitForChange(
+        venue.kind === "dex" ? venue.pool.address : bondingCurve,
+        getConfig().watchInterval
+      );
+      continue;
+    }
+
+    const { exitSellPercent } = getConfig();
+    console.log(
+      `${RULE_NAMES[rule]} triggered, selling ${exitSellPercent}% of every wallet's tokens.`
+    );
+
+    const holders = wallets.filter((wallet) =>
+      positions.some((position) => position.publicKey === wallet.publicKey)
+    );
+    // A sell left incomplete keeps its rule, the run stays open for resume
+    if (!(await sell(holders, exitSellPercent))) {
+      return false;
+    }
+    pending.splice(pending.indexOf(rule), 1);
+
+    // The sell changed holdings and cost basis, the peak starts over from them
+    positions = await getCostBasis(
+      owner,
+      wallets,
+      campaign.mint,
+      campaign.name
+    );
+    peak = 0;
+  }
+
+  console.log(
+    positions.length === 0
+      ? "No tokens left to watch."
+      : "Every exit rule has fired."
+  );
+  return true;
+}
@@ -0,0 +1,42 @@
+import { Keypair } from "@solana/web3.js";
+import * as bip39 from "bip39";
+import { derivePath } from "ed25519-hd-key";
+import bs58 from "bs58";
+import type { WalletInfoType } from "./utils";
+
+// Create a new 24 word BIP39 mnemonic
+export function generateMnemonic() {
+  return bip39.generateMnemonic(256);
+}
+
+export function validateMnemonic(mnemonic: string) {
+  return bip39.validateMnemonic(normalizeMnemonic(mnemonic));
+}
+
+function normalizeMnemonic(mnemonic: string) {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+// Solana's standard derivation path, same as Phantom and solana-keygen
+export function getDerivationPath(index: number) {
+  return `m/44'/501'/${index}'/0'`;
+}
+
+// Derive the keypair at [index] of [mnemonic]
+export function deriveKeypair(mnemonic: string, index: number) {
+  const seed = bip39.mnemonicToSeedSync(normalizeMnemonic(mnemonic));
+  const { key } = derivePath(getDerivationPath(index), seed.toString("hex"));
+  return Keypair.fromSeed(key);
+}
+
+// Derive the wallet at [index] of [mnemonic] in the wallets.json format
+export function deriveWallet(mnemonic: string, index: number): WalletInfoType {
+  const keypair = deriveKeypair(mnemonic, index);
+
+  return {
+    publicKey: keypair.publicKey.toBase58(),
+    privateKey: bs58.encode(keypair.secretKey),
+    index,
+    label: `wallet-${index}`,
+  };
+}
@@ -0,0 +1,153 @@
+import {
+  AccountMeta,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { BN, BorshInstructionCoder } from "@coral-xyz/anchor";
+import { PUMP_FUN_PROGRAM, MPL_TOKEN_METADATA } from "./constants";
+import {
+  getAssociatedBondingCurveAddress,
+  getBondingCurveAddress,
+} from "./bondingCurve";
+import { PUMP_FUN_IDL } from "./pumpFunIdl";
+
+const coder = new BorshInstructionCoder(PUMP_FUN_IDL);
+
+type IdlAccountType = {
+  name: string;
+  writable?: boolean;
+  signer?: boolean;
+  address?: string;
+};
+
+export type BuyInstructionParams = {
+  mint: PublicKey;
+  user: PublicKey;
+  associatedUser: PublicKey;
+  amount: bigint; // raw token units to receive
+  maxSolCost: bigint; // lamports
+};
+
+export type SellInstructionParams = {
+  mint: PublicKey;
+  user: PublicKey;
+  associatedUser: PublicKey;
+  amount: bigint; // raw token units to sell
+  minSolOutput: bigint; // lamports
+};
+
+export type CreateInstructionParams = {
+  mint: PublicKey;
+  user: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+};
+
+// Build account metas for [ixName] in IDL order, taking fixed addresses from the IDL
+export function getAccountMetas(
+  ixName: string,
+  accounts: Record<string, PublicKey>
+): AccountMeta[] {
+  const instruction = PUMP_FUN_IDL.instructions.find(
+    (ix) => ix.name === ixName
+  );
+  if (!instruction) {
+    throw new Error(`Unknown pump.fun instruction: ${ixName}`);
+  }
+
+  return (instruction.accounts as IdlAccountType[]).map((account) => {
+    const pubkey =
+      accounts[account.name] ??
+      (account.address ? new PublicKey(account.address) : undefined);
+    if (!pubkey) {
+      throw new Error(`Missing account ${account.name} for ${ixName}`);
+    }
+
+    return {
+      pubkey,
+      isSigner: !!account.signer,
+      isWritable: !!account.writable,
+    };
+  });
+}
+
+// Derive the metaplex metadata account of [mint]
+export function getMetadataAddress(mint: PublicKey) {
+  const metadataProgram = new PublicKey(MPL_TOKEN_METADATA);
+  const [metadata] = PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), metadataProgram.toBuffer(), mint.toBuffer()],
+    metadataProgram
+  );
+  return metadata;
+}
+
+// Build pump.fun buy instruction for [amount] tokens paying at most [maxSolCost]
+export function buildBuyInstruction(params: BuyInstructionParams) {
+  const bondingCurve = getBondingCurveAddress(params.mint);
+
+  return new TransactionInstruction({
+    programId: new PublicKey(PUMP_FUN_PROGRAM),
+    keys: getAccountMetas("buy", {
+      mint: params.mint,
+      bonding_curve: bondingCurve,
+      associated_bonding_curve: getAssociatedBondingCurveAddress(
+        params.mint,
+        bondingCurve
+      ),
+      associated_user: params.associatedUser,
+      user: params.user,
+    }),
+    data: coder.encode("buy", {
+      amount: new BN(params.amount.toString()),
+      max_sol_cost: new BN(params.maxSolCost.toString()),
+    }),
+  });
+}
+
+// Build pump.fun sell instruction for [amount] tokens receiving at least [minSolOutput]
+export function buildSellInstruction(params: SellInstructionParams) {
+  const bondingCurve = getBondingCurveAddress(params.mint);
+
+  return new TransactionInstruction({
+    programId: new PublicKey(PUMP_FUN_PROGRAM),
+    keys: getAccountMetas("sell", {
+      mint: params.mint,
+      bonding_curve: bondingCurve,
+      associated_bonding_curve: getAssociatedBondingCurveAddress(
+        params.mint,
+        bondingCurve
+      ),
+      associated_user: params.associatedUser,
+      user: params.user,
+    }),
+    data: coder.encode("sell", {
+      amount: new BN(params.amount.toString()),
+      min_sol_output: new BN(params.minSolOutput.toString()),
+    }),
+  });
+}
+
+// Build pump.fun create instruction launching [mint] with its metadata
+export function buildCreateInstruction(params: CreateInstructionParams) {
+  const bondingCurve = getBondingCurveAddress(params.mint);
+
+  return new TransactionInstruction({
+    programId: new PublicKey(PUMP_FUN_PROGRAM),
+    keys: getAccountMetas("create", {
+      mint: params.mint,
+      bonding_curve: bondingCurve,
+      associated_bonding_curve: getAssociatedBondingCurveAddress(
+        params.mint,
+        bondingCurve
+      ),
+      metadata: getMetadataAddress(params.mint),
+      user: params.user,
+    }),
+    data: coder.encode("create", {
+      name: params.name,
+      symbol: params.symbol,
+      uri: params.uri,
+    }),
+  });
+}
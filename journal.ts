@@ -0,0 +1,314 @@
+import fs from "fs";
+import path from "path";
+import { SubmitHookType, connection, waitSeconds } from "./utils";
+
+export const JOURNAL_FILE = path.join(__dirname, "journal.jsonl");
+
+let journalFile = JOURNAL_FILE;
+
+// Record runs in [file] instead of journal.jsonl
+export function setJournalFile(file: string) {
+  journalFile = path.resolve(file);
+}
+
+export type RunKindType = "generate" | "buy" | "sell" | "sweep";
+
+export type StepStatusType = "planned" | "submitted" | "confirmed" | "failed";
+
+export type RunEntryType = {
+  type: "run";
+  runId: string;
+  kind: RunKindType;
+  campaign: string;
+  params: Record<string, any>;
+  time: string;
+};
+
+export type StepEntryType = {
+  type: "step";
+  runId: string;
+  stepId: string;
+  status: StepStatusType;
+  signature?: string;
+  lastValidBlockHeight?: number;
+  details?: Record<string, any>;
+  error?: string;
+  time: string;
+};
+
+export type EndEntryType = {
+  type: "end";
+  runId: string;
+  status: "completed" | "paused";
+  time: string;
+};
+
+// A step about to be sent, with what it is meant to do
+export type PlannedStepType = {
+  stepId: string;
+  details: Record<string, any>;
+};
+
+type JournalEntryType = RunEntryType | StepEntryType | EndEntryType;
+
+// Append [entry] and flush it to disk before returning, so a crash cannot lose it
+function appendEntry(entry: JournalEntryType, file = journalFile) {
+  const fd = fs.openSync(file, "a");
+  try {
+    fs.writeSync(fd, JSON.stringify(entry) + "\n");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Read every entry of the journal, ignoring a torn last line left by a crash
+function readEntries(file = journalFile): JournalEntryType[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const entries: JournalEntryType[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch (err) {
+      console.warn(`Skipping unreadable journal line: ${line}`);
+    }
+  }
+  return entries;
+}
+
+// Check where a submitted transaction ended up on chain
+async function getSignatureOutcome(
+  step: StepEntryType
+): Promise<"confirmed" | "failed" | "pending"> {
+  if (!step.signature) {
+    return "failed";
+  }
+
+  const { value } = await connection.getSignatureStatuses([step.signature], {
+    searchTransactionHistory: true,
+  });
+  const status = value[0];
+  if (status?.err) {
+    return "failed";
+  }
+  if (
+    status?.confirmationStatus === "confirmed" ||
+    status?.confirmationStatus === "finalized"
+  ) {
+    return "confirmed";
+  }
+
+  // Not seen (or only processed): it can still land until its blockhash expires
+  const blockHeight = await connection.getBlockHeight("confirmed");
+  if (
+    step.lastValidBlockHeight === undefined ||
+    blockHeight > step.lastValidBlockHeight
+  ) {
+    return status ? "pending" : "failed";
+  }
+  return "pending";
+}
+
+export class RunJournal {
+  private steps = new Map<string, StepEntryType>();
+  end?: EndEntryType; // set when the run recorded its end
+
+  private constructor(
+    public readonly run: RunEntryType,
+    private readonly file: string
+  ) {}
+
+  // Record the start of a new run of [kind] with everything needed to continue it
+  static start(
+    kind: RunKindType,
+    campaign: string,
+    params: Record<string, any>,
+    file = journalFile
+  ) {
+    const run: RunEntryType = {
+      type: "run",
+      runId: `${kind}-${Date.now()}`,
+      kind,
+      campaign,
+      params,
+      time: new Date().toISOString(),
+    };
+    appendEntry(run, file);
+    return new RunJournal(run, file);
+  }
+
+  // Load every run of [campaign] (all campaigns if unset), oldest first
+  static findAll(campaign?: string, file = journalFile) {
+    const journals = new Map<string, RunJournal>();
+
+    for (const entry of readEntries(file)) {
+      if (entry.type === "run") {
+        journals.set(entry.runId, new RunJournal(entry, file));
+      } else if (entry.type === "step") {
+        journals.get(entry.runId)?.steps.set(entry.stepId, entry);
+      } else {
+        const journal = journals.get(entry.runId);
+        if (journal) {
+          journal.end = entry;
+        }
+      }
+    }
+
+    return Array.from(journals.values()).filter(
+      (journal) => campaign === undefined || journal.run.campaign === campaign
+    );
+  }
+
+  // Load runs that never recorded an end, oldest first
+  static findInterrupted(campaign?: string, file = journalFile) {
+    return RunJournal.findAll(campaign, file).filter((journal) => !journal.end);
+  }
+
+  private record(step: Omit<StepEntryType, "type" | "runId" | "time">) {
+    const entry: StepEntryType = {
+      type: "step",
+      runId: this.run.runId,
+      time: new Date().toISOString(),
+      ...step,
+    };
+    appendEntry(entry, this.file);
+    this.steps.set(entry.stepId, entry);
+  }
+
+  // Settle a step that was submitted before an interruption, waiting while it can still land
+  private async reconcile(step: StepEntryType) {
+    let outcome = await getSignatureOutcome(step);
+    while (outcome === "pending") {
+      console.log(`Waiting for ${step.signature} of step ${step.stepId}...`);
+      await waitSeconds(5);
+      outcome = await getSignatureOutcome(step);
+    }
+
+    this.record({
+      stepId: step.stepId,
+      status: outcome,
+      signature: step.signature,
+      error:
+        outcome === "failed" ? "not landed before interruption" : undefined,
+    });
+    return outcome;
+  }
+
+  // Run [action] once for [stepId]: steps confirmed earlier are skipped, never sent twice
+  async step(
+    stepId: string,
+    details: Record<string, any>,
+    action: (onSubmit: SubmitHookType) => Promise<string | undefined>
+  ) {
+    return await this.stepBatch([{ stepId, details }], action);
+  }
+
+  // Run [action] once for [steps] carried by one transaction. Steps confirmed earlier are
+  // left out, [action] gets the ones still to send and is not called when none are left.
+  async stepBatch(
+    steps: PlannedStepType[],
+    action: (
+      onSubmit: SubmitHookType,
+      pending: PlannedStepType[]
+    ) => Promise<string | undefined>
+  ) {
+    const pending: PlannedStepType[] = [];
+    for (const step of steps) {
+      const previous = this.steps.get(step.stepId);
+      if (previous?.status === "confirmed") {
+        console.log(`Step ${step.stepId} already confirmed, skipping.`);
+        continue;
+      }
+      // A failed send may still have broadcast a transaction that lands later
+      if (previous?.signature) {
+        if ((await this.reconcile(previous)) === "confirmed") {
+          console.log(
+            `Step ${step.stepId} landed before interruption, skipping.`
+          );
+          continue;
+        }
+      }
+      pending.push(step);
+    }
+    if (pending.length === 0) {
+      return true;
+    }
+
+    for (const { stepId, details } of pending) {
+      this.record({ stepId, status: "planned", details });
+    }
+    try {
+      const signature = await action((signature, lastValidBlockHeight) => {
+        for (const { stepId } of pending) {
+          this.record({
+            stepId,
+            status: "submitted",
+            signature,
+            lastValidBlockHeight,
+          });
+        }
+      }, pending);
+
+      if (signature) {
+        for (const { stepId } of pending) {
+          this.record({ stepId, status: "confirmed", signature });
+        }
+        return true;
+      }
+      this.recordFailed(pending, "step reported no transaction");
+      return false;
+    } catch (err) {
+      this.recordFailed(
+        pending,
+        err instanceof Error ? err.message : String(err)
+      );
+      throw err;
+    }
+  }
+
+  private recordFailed(steps: PlannedStepType[], error: string) {
+    for (const { stepId } of steps) {
+      this.record({
+        stepId,
+        status: "failed",
+        signature: this.steps.get(stepId)?.signature,
+        lastValidBlockHeight: this.steps.get(stepId)?.lastValidBlockHeight,
+        error,
+      });
+    }
+  }
+
+  // Get the confirmed steps of this run in the order they were first planned
+  getConfirmedSteps() {
+    return Array.from(this.steps.values()).filter(
+      (step) => step.status === "confirmed" && step.signature
+    );
+  }
+
+  // Get the latest entry recorded for [stepId]
+  getStep(stepId: string) {
+    return this.steps.get(stepId);
+  }
+
+  // Check whether [stepId] already completed in this run
+  isConfirmed(stepId: string) {
+    return this.steps.get(stepId)?.status === "confirmed";
+  }
+
+  // Record that the run reached its end, so resume no longer picks it up
+  finish(status: EndEntryType["status"] = "completed") {
+    this.end = {
+      type: "end",
+      runId: this.run.runId,
+      status,
+      time: new Date().toISOString(),
+    };
+    appendEntry(this.end, this.file);
+  }
+}
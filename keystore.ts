@@ -0,0 +1,292 @@
+import CryptoJS from "crypto-js";
+import fs from "fs";
+import path from "path";
+import prompts from "prompts";
+
+const KEYSTORE_VERSION = 1;
+const KDF_ITERATIONS = 100_000;
+
+export type KeystoreType = {
+  version: number;
+  kdf: "pbkdf2-sha256";
+  iterations: number;
+  salt: string; // hex
+  cipher: "aes-256-cbc";
+  iv: string; // hex
+  ciphertext: string; // base64
+  mac: string; // hex, HMAC-SHA256 over iv and ciphertext
+};
+
+export class KeystoreLockedError extends Error {
+  constructor() {
+    super(
+      "The keystore is locked, set KEYSTORE_PASSPHRASE to unlock it outside the interactive menu."
+    );
+    this.name = "KeystoreLockedError";
+  }
+}
+
+let unlockedPassphrase: string | undefined =
+  process.env.KEYSTORE_PASSPHRASE || undefined;
+// Subcommands run unattended and must not wait on a prompt
+let promptAllowed = true;
+const derivedKeys = new Map<string, CryptoJS.lib.WordArray>();
+
+// Derive the master key for [passphrase] and [salt], cached since PBKDF2 is slow on purpose
+function deriveKey(passphrase: string, salt: string, iterations: number) {
+  const cacheKey = `${passphrase}:${salt}:${iterations}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = CryptoJS.PBKDF2(passphrase, CryptoJS.enc.Hex.parse(salt), {
+      keySize: 256 / 32,
+      iterations,
+      hasher: CryptoJS.algo.SHA256,
+    });
+    derivedKeys.set(cacheKey, key);
+  }
+
+  // Separate keys for encryption and authentication
+  return {
+    encKey: CryptoJS.HmacSHA256("encryption", key),
+    macKey: CryptoJS.HmacSHA256("authentication", key),
+  };
+}
+
+// Compare two hex strings without leaking where they differ
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+// Check if parsed file content is an encrypted keystore rather than legacy plaintext
+export function isKeystore(data: unknown): data is KeystoreType {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return false;
+  }
+
+  const fields = data as Record<string, unknown>;
+  return (
+    fields.version === KEYSTORE_VERSION &&
+    fields.kdf === "pbkdf2-sha256" &&
+    typeof fields.iterations === "number" &&
+    fields.cipher === "aes-256-cbc" &&
+    ["salt", "iv", "ciphertext", "mac"].every(
+      (field) => typeof fields[field] === "string"
+    )
+  );
+}
+
+// Encrypt [plaintext] with a key derived from [passphrase]
+export function encryptKeystore(
+  plaintext: string,
+  passphrase: string
+): KeystoreType {
+  const salt = CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const { encKey, macKey } = deriveKey(passphrase, salt, KDF_ITERATIONS);
+
+  const encrypted = CryptoJS.AES.encrypt(plaintext, encKey, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  });
+  const ivHex = iv.toString(CryptoJS.enc.Hex);
+  const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
+
+  return {
+    version: KEYSTORE_VERSION,
+    kdf: "pbkdf2-sha256",
+    iterations: KDF_ITERATIONS,
+    salt,
+    cipher: "aes-256-cbc",
+    iv: ivHex,
+    ciphertext,
+    mac: CryptoJS.HmacSHA256(ivHex + ciphertext, macKey).toString(
+      CryptoJS.enc.Hex
+    ),
+  };
+}
+
+// Decrypt [keystore] with [passphrase], failing if the passphrase is wrong or the file was tampered with
+export function decryptKeystore(keystore: KeystoreType, passphrase: string) {
+  const { encKey, macKey } = deriveKey(
+    passphrase,
+    keystore.salt,
+    keystore.iterations
+  );
+
+  const mac = CryptoJS.HmacSHA256(
+    keystore.iv + keystore.ciphertext,
+    macKey
+  ).toString(CryptoJS.enc.Hex);
+  if (!safeEqual(mac, keystore.mac)) {
+    throw new Error("Wrong passphrase or corrupted keystore.");
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({
+      ciphertext: CryptoJS.enc.Base64.parse(keystore.ciphertext),
+    }),
+    encKey,
+    {
+      iv: CryptoJS.enc.Hex.parse(keystore.iv),
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    }
+  );
+  return decrypted.toString(CryptoJS.enc.Utf8);
+}
+
+// Ask for a passphrase, twice when it is a new one
+export async function promptPassphrase(message: string, confirm = false) {
+  const { passphrase } = await prompts({
+    type: "password",
+    name: "passphrase",
+    message,
+    // Keep stdout for command output such as --json results
+    stdout: process.stderr,
+  });
+  if (!passphrase) {
+    throw new Error("Passphrase is required.");
+  }
+
+  if (confirm) {
+    const { repeated } = await prompts({
+      type: "password",
+      name: "repeated",
+      message: "Repeat the passphrase:",
+      stdout: process.stderr,
+    });
+    if (repeated !== passphrase) {
+      throw new Error("Passphrases do not match.");
+    }
+  }
+
+  return passphrase as string;
+}
+
+// Keep [passphrase] in memory for the rest of the session
+export function unlockKeystore(passphrase: string) {
+  unlockedPassphrase = passphrase;
+}
+
+// Forget the session passphrase
+export function lockKeystore() {
+  unlockedPassphrase = undefined;
+  derivedKeys.clear();
+}
+
+export function isKeystoreUnlocked() {
+  return !!unlockedPassphrase;
+}
+
+// Take the passphrase only from KEYSTORE_PASSPHRASE or unlockKeystore, never from a prompt
+export function disablePassphrasePrompt() {
+  promptAllowed = false;
+}
+
+// Get the session passphrase, asking for it when the keystore is still locked
+async function getPassphrase(confirm: boolean) {
+  if (!unlockedPassphrase) {
+    if (!promptAllowed) {
+      throw new KeystoreLockedError();
+    }
+    unlockedPassphrase = await promptPassphrase(
+      confirm ? "Choose a keystore passphrase:" : "Keystore passphrase:",
+      confirm
+    );
+  }
+  return unlockedPassphrase;
+}
+
+// Read raw file content, decrypting it when it is a keystore
+export async function readSecureFile(file: string) {
+  const data = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (!isKeystore(data)) {
+    console.warn(
+      `${file} is stored in plaintext. Use "Manage keystore" to encrypt it.`
+    );
+    return data;
+  }
+
+  const passphrase = await getPassphrase(false);
+  try {
+    return JSON.parse(decryptKeystore(data, passphrase));
+  } catch (err) {
+    // Do not keep a passphrase that failed to open the keystore
+    lockKeystore();
+    throw err;
+  }
+}
+
+// Replace [file] with [content] in one step, so a crash never leaves it half written
+function writeFileAtomic(file: string, content: string) {
+  const temporary = path.join(
+    path.dirname(file),
+    `.${path.basename(file)}.${process.pid}.tmp`
+  );
+  try {
+    fs.writeFileSync(temporary, content, { mode: 0o600 });
+    fs.renameSync(temporary, file);
+  } catch (err) {
+    fs.rmSync(temporary, { force: true });
+    throw err;
+  }
+}
+
+// Write [value] to [file] as an encrypted keystore
+export async function writeSecureFile(file: string, value: unknown) {
+  const passphrase = await getPassphrase(true);
+  const keystore = encryptKeystore(JSON.stringify(value, null, 2), passphrase);
+  writeFileAtomic(file, JSON.stringify(keystore, null, 2));
+}
+
+// Encrypt every existing plaintext file in [files] with the session passphrase
+export async function migrateFiles(files: string[]) {
+  for (const file of files) {
+    if (!fs.existsSync(file)) {
+      continue;
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (isKeystore(data)) {
+      console.log(`${file} is already encrypted.`);
+      continue;
+    }
+
+    await writeSecureFile(file, data);
+    console.log(`Encrypted ${file}`);
+  }
+}
+
+// Re-encrypt every keystore in [files] with [newPassphrase]
+export async function rekeyFiles(files: string[], newPassphrase: string) {
+  const contents = new Map<string, unknown>();
+  for (const file of files) {
+    if (fs.existsSync(file)) {
+      contents.set(file, await readSecureFile(file));
+    }
+  }
+
+  unlockKeystore(newPassphrase);
+  for (const [file, value] of contents) {
+    await writeSecureFile(file, value);
+    console.log(`Re-encrypted ${file}`);
+  }
+}
+
+// Write a decrypted plaintext copy of [file] to [exportFile]
+export async function exportFile(file: string, exportFile: string) {
+  const value = await readSecureFile(file);
+  fs.writeFileSync(exportFile, JSON.stringify(value, null, 2), {
+    mode: 0o600,
+  });
+  console.log(`Exported plaintext copy of ${file} to ${exportFile}`);
+}
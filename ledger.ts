@@ -0,0 +1,1244 @@
+import {
+  AccountChangeCallback,
+  AccountInfo,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  LogsCallback,
+  PublicKey,
+  SystemProgram,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountLayout,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { BN, BorshCoder, BorshInstructionCoder } from "@coral-xyz/anchor";
+import bs58 from "bs58";
+import {
+  BondingCurveStateType,
+  INITIAL_CURVE_RESERVES,
+  decodeBondingCurve,
+  encodeBondingCurve,
+  getAssociatedBondingCurveAddress,
+  getBondingCurveAddress,
+} from "./bondingCurve";
+import { FEE_RECIPIENT, PUMP_FUN_PROGRAM } from "./constants";
+import { PUMP_FUN_IDL } from "./pumpFunIdl";
+import { getBuyCost, getSellQuote } from "./quote";
+import type { PoolType } from "./dex";
+
+const coder = new BorshInstructionCoder(PUMP_FUN_IDL);
+const typesCoder = new BorshCoder(PUMP_FUN_IDL).types;
+const TRADE_EVENT_DISCRIMINATOR = Buffer.from(
+  PUMP_FUN_IDL.events!.find((event) => event.name === "TradeEvent")!
+    .discriminator
+);
+
+const ZERO = BigInt(0);
+
+const LAMPORTS_PER_SIGNATURE = 5000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const BLOCKHASH_LIFETIME = 150; // blocks a blockhash stays valid, as on mainnet
+
+// Constant product AMM that migrated tokens move to, standing in for PumpSwap or Raydium
+export const FAKE_AMM_PROGRAM = "FakeAmm1111111111111111111111111111111111111";
+const FAKE_AMM_FEE_BASIS_POINTS = 25;
+
+// Compute units charged per program, close enough to mainnet for fee estimates
+const PROGRAM_UNITS: Record<string, number> = {
+  [ComputeBudgetProgram.programId.toBase58()]: 150,
+  [SystemProgram.programId.toBase58()]: 150,
+  [TOKEN_PROGRAM_ID.toBase58()]: 4_500,
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 25_000,
+  [PUMP_FUN_PROGRAM]: 40_000,
+  [FAKE_AMM_PROGRAM]: 30_000,
+};
+
+type TokenAccountType = {
+  mint: string;
+  owner: string;
+  amount: bigint;
+};
+
+type MintType = {
+  decimals: number;
+  supply: bigint;
+};
+
+type LedgerStateType = {
+  lamports: Map<string, bigint>;
+  tokenAccounts: Map<string, TokenAccountType>;
+  mints: Map<string, MintType>;
+  curves: Map<string, BondingCurveStateType>; // by mint
+  pools: Map<string, string>; // pool address by mint
+};
+
+export type ProcessedTransactionType = {
+  signature: string;
+  slot: number;
+  err: TransactionError | null;
+  fee: number;
+  logs: string[];
+  accountKeys: string[];
+  preBalances: number[];
+  postBalances: number[];
+  preTokenBalances: any[];
+  postTokenBalances: any[];
+  transaction: VersionedTransaction;
+};
+
+type ExecutionType = {
+  err: TransactionError | null;
+  logs: string[];
+  unitsConsumed: number;
+  fee: number;
+  state: LedgerStateType; // state after the transaction, kept only on commit
+};
+
+// Thrown by instruction handlers, becomes the transaction error
+class InstructionFailure {
+  constructor(
+    public readonly error: any,
+    public readonly logs: string[] = []
+  ) {}
+}
+
+function cloneState(state: LedgerStateType): LedgerStateType {
+  return {
+    lamports: new Map(state.lamports),
+    tokenAccounts: new Map(
+      Array.from(state.tokenAccounts, ([key, account]) => [key, { ...account }])
+    ),
+    mints: new Map(
+      Array.from(state.mints, ([key, mint]) => [key, { ...mint }])
+    ),
+    curves: new Map(
+      Array.from(state.curves, ([key, curve]) => [key, { ...curve }])
+    ),
+    pools: new Map(state.pools),
+  };
+}
+
+// In-memory stand-in for a Connection: SOL balances, SPL token accounts and
+// pump.fun bonding curves, executing the instructions the bot sends
+export class FakeLedger {
+  readonly rpcEndpoint = "fake://ledger";
+
+  slot = 1;
+  blockHeight = 1;
+  dropTransactions = 0; // next broadcasts accepted but never landed, to test rebroadcast
+  recentPrioritizationFees: number[] = [];
+  onTransaction?: (processed: ProcessedTransactionType) => void; // called for every landed transaction
+
+  private state: LedgerStateType = {
+    lamports: new Map(),
+    tokenAccounts: new Map(),
+    mints: new Map(),
+    curves: new Map(),
+    pools: new Map(),
+  };
+  private blockhashes = new Map<string, number>(); // blockhash -> lastValidBlockHeight
+  private transactions = new Map<string, ProcessedTransactionType>();
+  private signaturesByAddress = new Map<string, string[]>();
+  private loadedAccounts = new Set<string>();
+  private loadedCurves = new Set<string>();
+  private nextSubscription = 0;
+  private logSubscriptions = new Map<
+    number,
+    { address: string; callback: LogsCallback }
+  >();
+  private accountSubscriptions = new Map<
+    number,
+    { address: string; callback: AccountChangeCallback }
+  >();
+
+  // [source] makes this a fork: accounts are copied from it on first use, writes stay local
+  constructor(private readonly source?: Connection) {}
+
+  // Paper copy of the chain behind [source], nothing is ever sent to it
+  static fork(source: Connection) {
+    return new FakeLedger(source);
+  }
+
+  // Use this ledger wherever a Connection is expected
+  asConnection() {
+    return this as unknown as Connection;
+  }
+
+  // ---- Setup ----
+
+  airdrop(address: PublicKey | string, sol: number) {
+    const key = address.toString();
+    const lamports = BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+    this.state.lamports.set(
+      key,
+      (this.state.lamports.get(key) ?? ZERO) + lamports
+    );
+  }
+
+  createMint(mint = Keypair.generate().publicKey, decimals = 6) {
+    this.state.mints.set(mint.toBase58(), { decimals, supply: ZERO });
+    this.state.lamports.set(
+      mint.toBase58(),
+      BigInt(this.getRentExemption(MINT_SIZE))
+    );
+    return mint;
+  }
+
+  // Launch a bonding curve for [mint] holding its unsold supply
+  createBondingCurve(
+    mint: PublicKey,
+    reserves: Partial<typeof INITIAL_CURVE_RESERVES> = {}
+  ) {
+    if (!this.state.mints.has(mint.toBase58())) {
+      this.createMint(mint);
+    }
+
+    const bondingCurve = getBondingCurveAddress(mint);
+    const associatedBondingCurve = getAssociatedBondingCurveAddress(
+      mint,
+      bondingCurve
+    );
+    const curve: BondingCurveStateType = {
+      mint,
+      bondingCurve,
+      associatedBondingCurve,
+      ...INITIAL_CURVE_RESERVES,
+      ...reserves,
+    };
+    this.state.curves.set(mint.toBase58(), curve);
+    this.state.lamports.set(
+      bondingCurve.toBase58(),
+      BigInt(this.getRentExemption(49)) + curve.realSolReserves
+    );
+    this.setTokenBalance(bondingCurve, mint, curve.realTokenReserves);
+    this.state.mints.get(mint.toBase58())!.supply = curve.tokenTotalSupply;
+    return curve;
+  }
+
+  // Set the token balance of [owner]'s associated token account directly
+  setTokenBalance(owner: PublicKey, mint: PublicKey, amount: bigint) {
+    const address = getAssociatedTokenAddressSync(mint, owner, true);
+    this.state.tokenAccounts.set(address.toBase58(), {
+      mint: mint.toBase58(),
+      owner: owner.toBase58(),
+      amount,
+    });
+    if (!this.state.lamports.has(address.toBase58())) {
+      this.state.lamports.set(
+        address.toBase58(),
+        BigInt(this.getRentExemption(ACCOUNT_SIZE))
+      );
+    }
+    return address;
+  }
+
+  // Mark the curve of [mint] as migrated, trades then fail with BondingCurveComplete
+  completeBondingCurve(mint: PublicKey) {
+    const curve = this.state.curves.get(mint.toBase58());
+    if (curve) {
+      curve.complete = true;
+    }
+  }
+
+  // Open a fake AMM pool for [mint] holding [sol] SOL and [tokens] raw token units,
+  // where its trades go after completeBondingCurve
+  createPool(mint: PublicKey, sol: number, tokens: bigint) {
+    const [pool] = PublicKey.findProgramAddressSync(
+      [Buffer.from("pool"), mint.toBuffer()],
+      new PublicKey(FAKE_AMM_PROGRAM)
+    );
+    this.state.pools.set(mint.toBase58(), pool.toBase58());
+    this.state.lamports.set(
+      pool.toBase58(),
+      BigInt(Math.round(sol * LAMPORTS_PER_SOL))
+    );
+    this.setTokenBalance(pool, mint, tokens);
+    return this.getPool(mint)!;
+  }
+
+  // Reserves of the fake AMM pool of [mint], the pool's lamports are all SOL reserves
+  getPool(mint: PublicKey | string): PoolType | undefined {
+    const address = this.state.pools.get(mint.toString());
+    if (!address) {
+      return undefined;
+    }
+    return {
+      address: new PublicKey(address),
+      mint: new PublicKey(mint),
+      solReserves: this.state.lamports.get(address) ?? ZERO,
+      tokenReserves: this.getTokenAmount(address, mint),
+      feeBasisPoints: FAKE_AMM_FEE_BASIS_POINTS,
+    };
+  }
+
+  // Get the bonding curve of [mint], copying it from the forked chain first
+  async fetchBondingCurve(mint: PublicKey | string) {
+    await this.loadMint(new PublicKey(mint));
+    return this.getBondingCurve(mint);
+  }
+
+  getBondingCurve(mint: PublicKey | string) {
+    const curve = this.state.curves.get(mint.toString());
+    if (!curve) {
+      throw new Error(`Bonding curve not found for ${mint}`);
+    }
+    return { ...curve };
+  }
+
+  getLamports(address: PublicKey | string) {
+    return Number(this.state.lamports.get(address.toString()) ?? ZERO);
+  }
+
+  getTokenAmount(owner: PublicKey | string, mint: PublicKey | string) {
+    const address = getAssociatedTokenAddressSync(
+      new PublicKey(mint),
+      new PublicKey(owner),
+      true
+    );
+    return this.state.tokenAccounts.get(address.toBase58())?.amount ?? ZERO;
+  }
+
+  // ---- Connection methods used by the bot ----
+
+  async getSlot() {
+    return this.slot;
+  }
+
+  async getBlockHeight() {
+    return this.blockHeight;
+  }
+
+  async getLatestBlockhash() {
+    const blockhash = Keypair.generate().publicKey.toBase58();
+    const lastValidBlockHeight = this.blockHeight + BLOCKHASH_LIFETIME;
+    this.blockhashes.set(blockhash, lastValidBlockHeight);
+    return { blockhash, lastValidBlockHeight };
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number) {
+    return this.getRentExemption(dataLength);
+  }
+
+  async getBalance(address: PublicKey) {
+    await this.load([address]);
+    return this.getLamports(address);
+  }
+
+  async getAccountInfo(address: PublicKey) {
+    await this.load([address]);
+    return this.getAccount(address.toBase58());
+  }
+
+  async getMultipleAccountsInfo(addresses: PublicKey[]) {
+    await this.load(addresses);
+    return addresses.map((address) => this.getAccount(address.toBase58()));
+  }
+
+  async getParsedAccountInfo(address: PublicKey) {
+    await this.load([address]);
+    const key = address.toBase58();
+    const mint = this.state.mints.get(key);
+    if (mint) {
+      return {
+        context: { slot: this.slot },
+        value: {
+          ...this.getAccount(key)!,
+          data: {
+            program: "spl-token",
+            parsed: {
+              type: "mint",
+              info: {
+                decimals: mint.decimals,
+                supply: mint.supply.toString(),
+                isInitialized: true,
+              },
+            },
+            space: MINT_SIZE,
+          },
+        },
+      };
+    }
+
+    const tokenAccount = this.state.tokenAccounts.get(key);
+    if (tokenAccount) {
+      return {
+        context: { slot: this.slot },
+        value: this.getParsedTokenAccount(key, tokenAccount).account,
+      };
+    }
+    return { context: { slot: this.slot }, value: this.getAccount(key) };
+  }
+
+  async getParsedTokenAccountsByOwner(
+    owner: PublicKey,
+    filter: { mint?: PublicKey; programId?: PublicKey }
+  ) {
+    if (filter.mint) {
+      await this.load([
+        getAssociatedTokenAddressSync(filter.mint, owner, true),
+      ]);
+    } else if (this.source) {
+      const { value } = await this.source.getTokenAccountsByOwner(owner, {
+        programId: TOKEN_PROGRAM_ID,
+      });
+      await this.load(value.map(({ pubkey }) => pubkey));
+    }
+
+    const value = Array.from(this.state.tokenAccounts)
+      .filter(
+        ([, account]) =>
+          account.owner === owner.toBase58() &&
+          (!filter.mint || account.mint === filter.mint.toBase58())
+      )
+      .map(([key, account]) => this.getParsedTokenAccount(key, account));
+    return { context: { slot: this.slot }, value };
+  }
+
+  async getRecentPrioritizationFees(config?: {
+    lockedWritableAccounts?: PublicKey[];
+  }) {
+    if (this.source) {
+      return this.source.getRecentPrioritizationFees(config);
+    }
+    return this.recentPrioritizationFees.map((prioritizationFee, index) => ({
+      slot: this.slot - index,
+      prioritizationFee,
+    }));
+  }
+
+  async simulateTransaction(
+    transaction: VersionedTransaction,
+    config?: { accounts?: { addresses: string[] } }
+  ) {
+    await this.load(transaction.message.staticAccountKeys);
+    const execution = this.execute(transaction, false);
+    return {
+      context: { slot: this.slot },
+      value: {
+        err: execution.err,
+        logs: execution.logs,
+        unitsConsumed: execution.unitsConsumed,
+        // Only the balance of the requested accounts, which is all the sender reads
+        accounts:
+          config?.accounts?.addresses.map((address) => ({
+            lamports: Number(execution.state.lamports.get(address) ?? ZERO),
+          })) ?? null,
+      },
+    };
+  }
+
+  async sendRawTransaction(rawTransaction: Buffer | Uint8Array) {
+    const transaction = VersionedTransaction.deserialize(rawTransaction);
+    await this.load(transaction.message.staticAccountKeys);
+    return this.broadcast(transaction);
+  }
+
+  async sendTransaction(transaction: VersionedTransaction) {
+    await this.load(transaction.message.staticAccountKeys);
+    return this.broadcast(transaction);
+  }
+
+  async getSignatureStatuses(signatures: string[]) {
+    return {
+      context: { slot: this.slot },
+      value: signatures.map((signature) => {
+        const processed = this.transactions.get(signature);
+        if (!processed) {
+          return null;
+        }
+        return {
+          slot: processed.slot,
+          confirmations: null,
+          err: processed.err,
+          confirmationStatus: "confirmed" as const,
+        };
+      }),
+    };
+  }
+
+  async getTransaction(signature: string) {
+    const processed = this.transactions.get(signature);
+    if (!processed) {
+      return null;
+    }
+    return {
+      slot: processed.slot,
+      blockTime: Math.floor(Date.now() / 1000),
+      transaction: {
+        signatures: [signature],
+        message: processed.transaction.message,
+      },
+      meta: {
+        err: processed.err,
+        fee: processed.fee,
+        logMessages: processed.logs,
+        preBalances: processed.preBalances,
+        postBalances: processed.postBalances,
+        preTokenBalances: processed.preTokenBalances,
+        postTokenBalances: processed.postTokenBalances,
+        innerInstructions: [],
+      },
+    };
+  }
+
+  async getParsedTransaction(signature: string) {
+    return this.getTransaction(signature);
+  }
+
+  async getSignaturesForAddress(
+    address: PublicKey,
+    options: { limit?: number } = {}
+  ) {
+    const signatures = this.signaturesByAddress.get(address.toBase58()) ?? [];
+    return signatures
+      .slice()
+      .reverse()
+      .slice(0, options.limit ?? 1000)
+      .map((signature) => {
+        const processed = this.transactions.get(signature)!;
+        return {
+          signature,
+          slot: processed.slot,
+          err: processed.err,
+          memo: null,
+          blockTime: Math.floor(Date.now() / 1000),
+          confirmationStatus: "confirmed" as const,
+        };
+      });
+  }
+
+  // Subscriptions are notified after every landed transaction mentioning [address]
+  onLogs(address: PublicKey, callback: LogsCallback) {
+    const id = this.nextSubscription++;
+    this.logSubscriptions.set(id, { address: address.toBase58(), callback });
+    return id;
+  }
+
+  async removeOnLogsListener(id: number) {
+    this.logSubscriptions.delete(id);
+  }
+
+  onAccountChange(address: PublicKey, callback: AccountChangeCallback) {
+    const id = this.nextSubscription++;
+    this.accountSubscriptions.set(id, {
+      address: address.toBase58(),
+      callback,
+    });
+    return id;
+  }
+
+  async removeAccountChangeListener(id: number) {
+    this.accountSubscriptions.delete(id);
+  }
+
+  // ---- Internals ----
+
+  // Copy [addresses] from the forked chain the first time they are used
+  private async load(addresses: PublicKey[]) {
+    if (!this.source) {
+      return;
+    }
+    const missing = addresses.filter(
+      (address) => !this.loadedAccounts.has(address.toBase58())
+    );
+    if (missing.length === 0) {
+      return;
+    }
+
+    const infos = await this.source.getMultipleAccountsInfo(missing);
+    const mints: PublicKey[] = [];
+    missing.forEach((address, index) => {
+      const key = address.toBase58();
+      const info = infos[index];
+      this.loadedAccounts.add(key);
+      if (!info) {
+        return;
+      }
+
+      // Local writes win over the forked state
+      if (!this.state.lamports.has(key)) {
+        this.state.lamports.set(key, BigInt(info.lamports));
+      }
+      if (!info.owner.equals(TOKEN_PROGRAM_ID)) {
+        return;
+      }
+      if (info.data.length === ACCOUNT_SIZE) {
+        const account = AccountLayout.decode(info.data);
+        this.state.tokenAccounts.set(key, {
+          mint: account.mint.toBase58(),
+          owner: account.owner.toBase58(),
+          amount: account.amount,
+        });
+        mints.push(account.mint);
+      } else if (info.data.length === MINT_SIZE) {
+        const mint = MintLayout.decode(info.data);
+        this.state.mints.set(key, {
+          decimals: mint.decimals,
+          supply: mint.supply,
+        });
+        mints.push(address);
+      }
+    });
+
+    for (const mint of mints) {
+      await this.loadMint(mint);
+    }
+  }
+
+  // Copy [mint] and its bonding curve from the forked chain
+  private async loadMint(mint: PublicKey) {
+    await this.load([mint]);
+    if (!this.source || this.loadedCurves.has(mint.toBase58())) {
+      return;
+    }
+    this.loadedCurves.add(mint.toBase58());
+
+    const bondingCurve = getBondingCurveAddress(mint);
+    const info = await this.source.getAccountInfo(bondingCurve);
+    if (info && info.owner.equals(new PublicKey(PUMP_FUN_PROGRAM))) {
+      this.state.curves.set(
+        mint.toBase58(),
+        decodeBondingCurve(mint, info.data)
+      );
+    }
+    await this.load([
+      bondingCurve,
+      getAssociatedBondingCurveAddress(mint, bondingCurve),
+    ]);
+  }
+
+  private getRentExemption(dataLength: number) {
+    return (dataLength + 128) * 6960;
+  }
+
+  private getAccount(key: string): AccountInfo<Buffer> | null {
+    const lamports = Number(this.state.lamports.get(key) ?? ZERO);
+
+    const curve = Array.from(this.state.curves.values()).find((curve) =>
+      curve.bondingCurve.equals(new PublicKey(key))
+    );
+    if (curve) {
+      return {
+        owner: new PublicKey(PUMP_FUN_PROGRAM),
+        data: encodeBondingCurve(curve),
+        lamports,
+        executable: false,
+        rentEpoch: 0,
+      };
+    }
+
+    const tokenAccount = this.state.tokenAccounts.get(key);
+    if (tokenAccount) {
+      const data = Buffer.alloc(ACCOUNT_SIZE);
+      AccountLayout.encode(
+        {
+          mint: new PublicKey(tokenAccount.mint),
+          owner: new PublicKey(tokenAccount.owner),
+          amount: tokenAccount.amount,
+          delegateOption: 0,
+          delegate: PublicKey.default,
+          state: 1,
+          isNativeOption: 0,
+          isNative: ZERO,
+          delegatedAmount: ZERO,
+          closeAuthorityOption: 0,
+          closeAuthority: PublicKey.default,
+        },
+        data
+      );
+      return {
+        owner: TOKEN_PROGRAM_ID,
+        data,
+        lamports,
+        executable: false,
+        rentEpoch: 0,
+      };
+    }
+
+    const mint = this.state.mints.get(key);
+    if (mint) {
+      const data = Buffer.alloc(MINT_SIZE);
+      MintLayout.encode(
+        {
+          mintAuthorityOption: 0,
+          mintAuthority: PublicKey.default,
+          supply: mint.supply,
+          decimals: mint.decimals,
+          isInitialized: true,
+          freezeAuthorityOption: 0,
+          freezeAuthority: PublicKey.default,
+        },
+        data
+      );
+      return {
+        owner: TOKEN_PROGRAM_ID,
+        data,
+        lamports,
+        executable: false,
+        rentEpoch: 0,
+      };
+    }
+
+    if (lamports > 0) {
+      return {
+        owner: SystemProgram.programId,
+        data: Buffer.alloc(0),
+        lamports,
+        executable: false,
+        rentEpoch: 0,
+      };
+    }
+    return null;
+  }
+
+  private getParsedTokenAccount(key: string, account: TokenAccountType) {
+    const decimals = this.state.mints.get(account.mint)?.decimals ?? 0;
+    const uiAmount = Number(account.amount) / Math.pow(10, decimals);
+    return {
+      pubkey: new PublicKey(key),
+      account: {
+        owner: TOKEN_PROGRAM_ID,
+        lamports: this.getLamports(key),
+        executable: false,
+        rentEpoch: 0,
+        data: {
+          program: "spl-token",
+          parsed: {
+            type: "account",
+            info: {
+              mint: account.mint,
+              owner: account.owner,
+              state: "initialized",
+              isNative: false,
+              tokenAmount: {
+                amount: account.amount.toString(),
+                decimals,
+                uiAmount,
+                uiAmountString: uiAmount.toString(),
+              },
+            },
+          },
+          space: ACCOUNT_SIZE,
+        },
+      },
+    };
+  }
+
+  private getTokenBalances(state: LedgerStateType, accountKeys: string[]) {
+    return accountKeys.flatMap((key, accountIndex) => {
+      const account = state.tokenAccounts.get(key);
+      if (!account) {
+        return [];
+      }
+      const decimals = state.mints.get(account.mint)?.decimals ?? 0;
+      return [
+        {
+          accountIndex,
+          mint: account.mint,
+          owner: account.owner,
+          uiTokenAmount: {
+            amount: account.amount.toString(),
+            decimals,
+            uiAmount: Number(account.amount) / Math.pow(10, decimals),
+            uiAmountString: (
+              Number(account.amount) / Math.pow(10, decimals)
+            ).toString(),
+          },
+        },
+      ];
+    });
+  }
+
+  private broadcast(transaction: VersionedTransaction) {
+    const signature = bs58.encode(transaction.signatures[0]);
+
+    // Rebroadcasts of a landed transaction are ignored, as the cluster does
+    if (this.transactions.has(signature)) {
+      return signature;
+    }
+
+    const lastValidBlockHeight = this.blockhashes.get(
+      transaction.message.recentBlockhash
+    );
+    if (
+      lastValidBlockHeight === undefined ||
+      this.blockHeight > lastValidBlockHeight
+    ) {
+      this.advance();
+      throw new Error("Transaction simulation failed: Blockhash not found");
+    }
+
+    this.advance();
+    if (this.dropTransactions > 0) {
+      this.dropTransactions--;
+      return signature;
+    }
+
+    const accountKeys = transaction.message.staticAccountKeys.map((key) =>
+      key.toBase58()
+    );
+    const preState = cloneState(this.state);
+    const execution = this.execute(transaction, true);
+
+    // Fees are charged even when the transaction fails, so it is recorded either way
+    if (execution.err !== "InsufficientFundsForFee") {
+      this.transactions.set(signature, {
+        signature,
+        slot: this.slot,
+        err: execution.err,
+        fee: execution.fee,
+        logs: execution.logs,
+        accountKeys,
+        preBalances: accountKeys.map((key) =>
+          Number(preState.lamports.get(key) ?? ZERO)
+        ),
+        postBalances: accountKeys.map((key) => this.getLamports(key)),
+        preTokenBalances: this.getTokenBalances(preState, accountKeys),
+        postTokenBalances: this.getTokenBalances(this.state, accountKeys),
+        transaction,
+      });
+      for (const key of accountKeys) {
+        const signatures = this.signaturesByAddress.get(key) ?? [];
+        signatures.push(signature);
+        this.signaturesByAddress.set(key, signatures);
+      }
+      this.onTransaction?.(this.transactions.get(signature)!);
+      this.notify(this.transactions.get(signature)!);
+    }
+    return signature;
+  }
+
+  // Deliver [processed] to subscriptions on a later tick, as a websocket would
+  private notify(processed: ProcessedTransactionType) {
+    const context = { slot: processed.slot };
+    setImmediate(() => {
+      for (const { address, callback } of this.logSubscriptions.values()) {
+        if (processed.accountKeys.includes(address)) {
+          const { signature, err, logs } = processed;
+          callback({ signature, err, logs }, context);
+        }
+      }
+      for (const { address, callback } of this.accountSubscriptions.values()) {
+        const account = this.getAccount(address);
+        if (processed.accountKeys.includes(address) && account) {
+          callback(account, context);
+        }
+      }
+    });
+  }
+
+  private advance() {
+    this.slot++;
+    this.blockHeight++;
+  }
+
+  // Run [transaction] against a copy of the state, keeping the result when [commit] is set
+  private execute(
+    transaction: VersionedTransaction,
+    commit: boolean
+  ): ExecutionType {
+    const message = TransactionMessage.decompile(transaction.message);
+    const payer = message.payerKey.toBase58();
+    const logs: string[] = [];
+
+    let units = 0;
+    let unitLimit: number | undefined;
+    let microLamports = 0;
+    for (const instruction of message.instructions) {
+      units += PROGRAM_UNITS[instruction.programId.toBase58()] ?? 1_000;
+      if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+        if (instruction.data[0] === 2) {
+          unitLimit = instruction.data.readUInt32LE(1);
+        } else if (instruction.data[0] === 3) {
+          microLamports = Number(instruction.data.readBigUInt64LE(1));
+        }
+      }
+    }
+    const limit =
+      unitLimit ?? DEFAULT_UNITS_PER_INSTRUCTION * message.instructions.length;
+    const fee =
+      LAMPORTS_PER_SIGNATURE *
+        transaction.message.header.numRequiredSignatures +
+      Math.ceil((microLamports * limit) / 1_000_000);
+
+    const state = cloneState(this.state);
+    const payerLamports = state.lamports.get(payer) ?? ZERO;
+    if (payerLamports < BigInt(fee)) {
+      return {
+        err: "InsufficientFundsForFee" as any,
+        logs,
+        unitsConsumed: 0,
+        fee,
+        state,
+      };
+    }
+    state.lamports.set(payer, payerLamports - BigInt(fee));
+    const charged = cloneState(state);
+
+    for (let index = 0; index < message.instructions.length; index++) {
+      const instruction = message.instructions[index];
+      const programId = instruction.programId.toBase58();
+      logs.push(`Program ${programId} invoke [1]`);
+      try {
+        this.executeInstruction(state, instruction, logs);
+        logs.push(`Program ${programId} success`);
+      } catch (err) {
+        if (!(err instanceof InstructionFailure)) {
+          throw err;
+        }
+        logs.push(...err.logs);
+        logs.push(`Program ${programId} failed: ${JSON.stringify(err.error)}`);
+        if (commit) {
+          this.state = charged;
+        }
+        return {
+          err: { InstructionError: [index, err.error] } as any,
+          logs,
+          unitsConsumed: units,
+          fee,
+          state: charged,
+        };
+      }
+    }
+
+    if (commit) {
+      this.state = state;
+    }
+    return { err: null, logs, unitsConsumed: units, fee, state };
+  }
+
+  private executeInstruction(
+    state: LedgerStateType,
+    instruction: TransactionInstruction,
+    logs: string[]
+  ) {
+    const programId = instruction.programId.toBase58();
+    if (programId === ComputeBudgetProgram.programId.toBase58()) {
+      return;
+    }
+    if (programId === SystemProgram.programId.toBase58()) {
+      return this.executeSystem(state, instruction);
+    }
+    if (programId === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+      return this.executeAssociatedToken(state, instruction);
+    }
+    if (programId === TOKEN_PROGRAM_ID.toBase58()) {
+      return this.executeToken(state, instruction);
+    }
+    if (programId === PUMP_FUN_PROGRAM) {
+      return this.executePumpFun(state, instruction, logs);
+    }
+    if (programId === FAKE_AMM_PROGRAM) {
+      return this.executeFakeAmm(state, instruction, logs);
+    }
+    throw new InstructionFailure("UnsupportedProgramId", [
+      `Program ${programId} is not supported by the fake ledger`,
+    ]);
+  }
+
+  private moveLamports(
+    state: LedgerStateType,
+    from: string,
+    to: string,
+    lamports: bigint
+  ) {
+    const balance = state.lamports.get(from) ?? ZERO;
+    if (balance < lamports) {
+      throw new InstructionFailure({ Custom: 1 }, [
+        `Transfer: insufficient lamports ${balance}, need ${lamports}`,
+      ]);
+    }
+    state.lamports.set(from, balance - lamports);
+    state.lamports.set(to, (state.lamports.get(to) ?? ZERO) + lamports);
+  }
+
+  private executeSystem(
+    state: LedgerStateType,
+    instruction: TransactionInstruction
+  ) {
+    // Only Transfer (index 2) is used by the bot
+    if (instruction.data.readUInt32LE(0) !== 2) {
+      throw new InstructionFailure("InvalidInstructionData");
+    }
+    this.moveLamports(
+      state,
+      instruction.keys[0].pubkey.toBase58(),
+      instruction.keys[1].pubkey.toBase58(),
+      instruction.data.readBigUInt64LE(4)
+    );
+  }
+
+  private executeAssociatedToken(
+    state: LedgerStateType,
+    instruction: TransactionInstruction
+  ) {
+    const [payer, address, owner, mint] = instruction.keys.map((key) =>
+      key.pubkey.toBase58()
+    );
+    const idempotent = instruction.data.length > 0 && instruction.data[0] === 1;
+
+    if (state.tokenAccounts.has(address)) {
+      if (idempotent) {
+        return;
+      }
+      throw new InstructionFailure({ Custom: 0 }, [
+        `Allocate: account Address { address: ${address} } already in use`,
+      ]);
+    }
+    if (!state.mints.has(mint)) {
+      throw new InstructionFailure("InvalidAccountData");
+    }
+
+    this.moveLamports(
+      state,
+      payer,
+      address,
+      BigInt(this.getRentExemption(ACCOUNT_SIZE))
+    );
+    state.tokenAccounts.set(address, { mint, owner, amount: ZERO });
+  }
+
+  private executeToken(
+    state: LedgerStateType,
+    instruction: TransactionInstruction
+  ) {
+    const keys = instruction.keys.map((key) => key.pubkey.toBase58());
+    const source = state.tokenAccounts.get(keys[0]);
+    if (!source) {
+      throw new InstructionFailure("UninitializedAccount");
+    }
+
+    switch (instruction.data[0]) {
+      case 3: {
+        // Transfer: source, destination, owner
+        const amount = instruction.data.readBigUInt64LE(1);
+        const destination = state.tokenAccounts.get(keys[1]);
+        if (!destination || destination.mint !== source.mint) {
+          throw new InstructionFailure({ Custom: 3 }, [
+            "Program log: Error: Account not associated with this Mint",
+          ]);
+        }
+        this.debitTokens(source, keys[2], amount);
+        destination.amount += amount;
+        return;
+      }
+      case 8: {
+        // Burn: account, mint, owner
+        const amount = instruction.data.readBigUInt64LE(1);
+        this.debitTokens(source, keys[2], amount);
+        state.mints.get(source.mint)!.supply -= amount;
+        return;
+      }
+      case 9: {
+        // CloseAccount: account, destination, owner
+        if (source.owner !== keys[2]) {
+          throw new InstructionFailure({ Custom: 4 }, [
+            "Program log: Error: owner does not match",
+          ]);
+        }
+        if (source.amount > ZERO) {
+          throw new InstructionFailure({ Custom: 11 }, [
+            "Program log: Error: Non-native account can only be closed if its balance is zero",
+          ]);
+        }
+        this.moveLamports(
+          state,
+          keys[0],
+          keys[1],
+          state.lamports.get(keys[0]) ?? ZERO
+        );
+        state.tokenAccounts.delete(keys[0]);
+        state.lamports.delete(keys[0]);
+        return;
+      }
+      default:
+        throw new InstructionFailure("InvalidInstructionData");
+    }
+  }
+
+  private debitTokens(
+    account: TokenAccountType,
+    owner: string,
+    amount: bigint
+  ) {
+    if (account.owner !== owner) {
+      throw new InstructionFailure({ Custom: 4 }, [
+        "Program log: Error: owner does not match",
+      ]);
+    }
+    if (account.amount < amount) {
+      throw new InstructionFailure({ Custom: 1 }, [
+        "Program log: Error: insufficient funds",
+      ]);
+    }
+    account.amount -= amount;
+  }
+
+  // Fail like Anchor does, logging the error name from the IDL
+  private pumpFunError(name: string) {
+    const error = PUMP_FUN_IDL.errors!.find((error) => error.name === name)!;
+    return new InstructionFailure({ Custom: error.code }, [
+      `Program log: AnchorError occurred. Error Code: ${error.name}. Error Number: ${error.code}. Error Message: ${error.msg}.`,
+    ]);
+  }
+
+  // Sell only: data is tokenIn and minSolOutput as u64,
+  // accounts are pool, user, user token account and pool token account
+  private executeFakeAmm(
+    state: LedgerStateType,
+    instruction: TransactionInstruction,
+    logs: string[]
+  ) {
+    if (instruction.data.length !== 16) {
+      throw new InstructionFailure("InvalidInstructionData");
+    }
+    const tokenIn = instruction.data.readBigUInt64LE(0);
+    const minSolOutput = instruction.data.readBigUInt64LE(8);
+    const [pool, user, userTokens, poolTokens] = instruction.keys.map((key) =>
+      key.pubkey.toBase58()
+    );
+    const source = state.tokenAccounts.get(userTokens);
+    const destination = state.tokenAccounts.get(poolTokens);
+    if (!source || !destination || destination.owner !== pool) {
+      throw new InstructionFailure("InvalidAccountData");
+    }
+    logs.push("Program log: Instruction: Sell");
+
+    const quote = getSellQuote(
+      {
+        virtualSolReserves: state.lamports.get(pool) ?? ZERO,
+        virtualTokenReserves: destination.amount,
+        realTokenReserves: destination.amount,
+      },
+      tokenIn,
+      FAKE_AMM_FEE_BASIS_POINTS
+    );
+    if (quote.solOut < minSolOutput) {
+      throw new InstructionFailure({ Custom: 1 }, [
+        `Program log: Error: output ${quote.solOut} below minimum ${minSolOutput}`,
+      ]);
+    }
+
+    this.debitTokens(source, user, tokenIn);
+    destination.amount += tokenIn;
+    this.moveLamports(state, pool, user, quote.solOut);
+  }
+
+  private executePumpFun(
+    state: LedgerStateType,
+    instruction: TransactionInstruction,
+    logs: string[]
+  ) {
+    const decoded = coder.decode(Buffer.from(instruction.data));
+    if (!decoded || (decoded.name !== "buy" && decoded.name !== "sell")) {
+      throw new InstructionFailure("InvalidInstructionData");
+    }
+    logs.push(
+      `Program log: Instruction: ${decoded.name === "buy" ? "Buy" : "Sell"}`
+    );
+
+    const names = PUMP_FUN_IDL.instructions
+      .find((ix) => ix.name === decoded.name)!
+      .accounts.map((account) => account.name);
+    const account = (name: string) =>
+      instruction.keys[names.indexOf(name)].pubkey.toBase58();
+
+    const curve = state.curves.get(account("mint"));
+    if (!curve || curve.bondingCurve.toBase58() !== account("bonding_curve")) {
+      throw this.pumpFunError("MintDoesNotMatchBondingCurve");
+    }
+    if (curve.complete) {
+      throw this.pumpFunError("BondingCurveComplete");
+    }
+
+    const args = decoded.data as Record<string, any>;
+    const amount = BigInt(args.amount.toString());
+    const user = account("user");
+    const userTokens = state.tokenAccounts.get(account("associated_user"));
+    const curveTokens = state.tokenAccounts.get(
+      account("associated_bonding_curve")
+    );
+    if (!userTokens || !curveTokens) {
+      throw new InstructionFailure({ Custom: 3012 }, [
+        "Program log: AnchorError occurred. Error Code: AccountNotInitialized. Error Number: 3012.",
+      ]);
+    }
+
+    let solAmount: bigint;
+    if (decoded.name === "buy") {
+      if (amount > curve.realTokenReserves) {
+        throw this.pumpFunError("TooMuchSolRequired");
+      }
+      const quote = getBuyCost(curve, amount);
+      if (quote.solIn > BigInt(args.max_sol_cost.toString())) {
+        throw this.pumpFunError("TooMuchSolRequired");
+      }
+
+      this.moveLamports(state, user, account("bonding_curve"), quote.solCost);
+      this.moveLamports(state, user, FEE_RECIPIENT, quote.fee);
+      curveTokens.amount -= amount;
+      userTokens.amount += amount;
+      solAmount = quote.solCost;
+
+      curve.virtualSolReserves += quote.solCost;
+      curve.virtualTokenReserves -= amount;
+      curve.realSolReserves += quote.solCost;
+      curve.realTokenReserves -= amount;
+    } else {
+      const quote = getSellQuote(curve, amount);
+      if (quote.solOut < BigInt(args.min_sol_output.toString())) {
+        throw this.pumpFunError("TooLittleSolReceived");
+      }
+
+      this.debitTokens(userTokens, user, amount);
+      curveTokens.amount += amount;
+      this.moveLamports(
+        state,
+        account("bonding_curve"),
+        user,
+        quote.solOut + quote.fee
+      );
+      this.moveLamports(state, user, FEE_RECIPIENT, quote.fee);
+      solAmount = quote.solOut + quote.fee;
+
+      curve.virtualSolReserves -= quote.solOut + quote.fee;
+      curve.virtualTokenReserves += amount;
+      curve.realSolReserves -= quote.solOut + quote.fee;
+      curve.realTokenReserves += amount;
+    }
+
+    // The last token sold by the curve completes it
+    if (curve.realTokenReserves === ZERO) {
+      curve.complete = true;
+    }
+
+    // Emitted like Anchor's emit!, as a base64 Program data log
+    const event = typesCoder.encode("TradeEvent", {
+      mint: curve.mint,
+      sol_amount: new BN(solAmount.toString()),
+      token_amount: new BN(amount.toString()),
+      is_buy: decoded.name === "buy",
+      user: new PublicKey(user),
+      timestamp: new BN(Math.floor(Date.now() / 1000)),
+      virtual_sol_reserves: new BN(curve.virtualSolReserves.toString()),
+      virtual_token_reserves: new BN(curve.virtualTokenReserves.toString()),
+    });
+    logs.push(
+      `Program data: ${Buffer.concat([
+        TRADE_EVENT_DISCRIMINATOR,
+        event,
+      ]).toString("base64")}`
+    );
+  }
+}
@@ -0,0 +1,227 @@
+import { ChildProcess, spawn } from "child_process";
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import fs from "fs";
+import path from "path";
+import {
+  INITIAL_CURVE_RESERVES,
+  encodeBondingCurve,
+  getAssociatedBondingCurveAddress,
+  getBondingCurveAddress,
+} from "./bondingCurve";
+import { FEE_RECIPIENT, PUMP_FUN_PROGRAM } from "./constants";
+
+export const LOCAL_RPC_URL = "http://127.0.0.1:8899";
+export const LOCAL_VALIDATOR_DIR = path.join(__dirname, ".local-validator");
+export const MOCK_PROGRAM_FILE = path.join(
+  __dirname,
+  "programs/mock-pump/target/deploy/mock_pump.so"
+);
+
+const STARTUP_TIMEOUT_MS = 60_000;
+const OWNER_AIRDROP_SOL = 100;
+const RENT_PER_BYTE_YEAR = 6960; // rent-exempt lamports per byte, account header included
+
+export type LocalValidatorType = {
+  rpcUrl: string;
+  mint: PublicKey;
+  stop: () => void;
+};
+
+function getRentExemption(dataLength: number) {
+  return (dataLength + 128) * RENT_PER_BYTE_YEAR;
+}
+
+// Write [data] owned by [owner] at [address] in the JSON format of solana-test-validator --account
+function writeAccountFile(
+  address: PublicKey,
+  owner: PublicKey,
+  data: Buffer,
+  lamports = getRentExemption(data.length)
+) {
+  const file = path.join(
+    LOCAL_VALIDATOR_DIR,
+    "accounts",
+    `${address.toBase58()}.json`
+  );
+  fs.writeFileSync(
+    file,
+    JSON.stringify({
+      pubkey: address.toBase58(),
+      account: {
+        lamports,
+        data: [data.toString("base64"), "base64"],
+        owner: owner.toBase58(),
+        executable: false,
+        rentEpoch: 0,
+        space: data.length,
+      },
+    })
+  );
+  return ["--account", address.toBase58(), file];
+}
+
+// Preload [mint], its freshly launched bonding curve and the fee recipient
+function writeGenesisAccounts(mint: PublicKey) {
+  fs.mkdirSync(path.join(LOCAL_VALIDATOR_DIR, "accounts"), { recursive: true });
+  const bondingCurve = getBondingCurveAddress(mint);
+  const associatedBondingCurve = getAssociatedBondingCurveAddress(
+    mint,
+    bondingCurve
+  );
+
+  const mintData = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: INITIAL_CURVE_RESERVES.tokenTotalSupply,
+      decimals: 6,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    mintData
+  );
+
+  const curveData = encodeBondingCurve({
+    mint,
+    bondingCurve,
+    associatedBondingCurve,
+    ...INITIAL_CURVE_RESERVES,
+  });
+
+  const curveTokenData = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner: bondingCurve,
+      amount: INITIAL_CURVE_RESERVES.realTokenReserves,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount: BigInt(0),
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    curveTokenData
+  );
+
+  return [
+    ...writeAccountFile(mint, TOKEN_PROGRAM_ID, mintData),
+    ...writeAccountFile(
+      bondingCurve,
+      new PublicKey(PUMP_FUN_PROGRAM),
+      curveData
+    ),
+    ...writeAccountFile(
+      associatedBondingCurve,
+      TOKEN_PROGRAM_ID,
+      curveTokenData
+    ),
+    // Fee recipient must be rent exempt before it can receive small fees
+    ...writeAccountFile(
+      new PublicKey(FEE_RECIPIENT),
+      SystemProgram.programId,
+      Buffer.alloc(0),
+      LAMPORTS_PER_SOL
+    ),
+  ];
+}
+
+// Wait until the validator answers RPC calls
+async function waitForValidator(connection: Connection, child: ChildProcess) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.pid === undefined) {
+      throw new Error(
+        "solana-test-validator could not be started, is the Solana CLI installed?"
+      );
+    }
+    if (child.exitCode !== null) {
+      throw new Error(
+        `solana-test-validator exited with code ${child.exitCode}, see ${LOCAL_VALIDATOR_DIR}/validator.log`
+      );
+    }
+    try {
+      await connection.getLatestBlockhash();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+  throw new Error("solana-test-validator did not start in time.");
+}
+
+// Boot solana-test-validator with the mock pump.fun program and a test mint, then fund [owner]
+export async function startLocalValidator(
+  owner: PublicKey,
+  mint: PublicKey
+): Promise<LocalValidatorType> {
+  if (!fs.existsSync(MOCK_PROGRAM_FILE)) {
+    throw new Error(
+      `Mock program not built: ${MOCK_PROGRAM_FILE} is missing. Run "npm run build:mock-program" first.`
+    );
+  }
+
+  const args = [
+    "--reset",
+    "--quiet",
+    "--ledger",
+    path.join(LOCAL_VALIDATOR_DIR, "ledger"),
+    "--bpf-program",
+    PUMP_FUN_PROGRAM,
+    MOCK_PROGRAM_FILE,
+    ...writeGenesisAccounts(mint),
+  ];
+
+  console.log("Starting solana-test-validator...");
+  const log = fs.openSync(path.join(LOCAL_VALIDATOR_DIR, "validator.log"), "w");
+  const child = spawn("solana-test-validator", args, {
+    stdio: ["ignore", log, log],
+  });
+  child.on("error", (err) =>
+    console.error("Error in starting solana-test-validator: ", err.message)
+  );
+
+  const stop = () => {
+    if (child.exitCode === null) {
+      child.kill();
+    }
+  };
+  // Never leave a validator running after the bot exits
+  process.on("exit", stop);
+
+  try {
+    const connection = new Connection(LOCAL_RPC_URL, "confirmed");
+    await waitForValidator(connection, child);
+
+    const signature = await connection.requestAirdrop(
+      owner,
+      OWNER_AIRDROP_SOL * LAMPORTS_PER_SOL
+    );
+    const latestBlockhash = await connection.getLatestBlockhash();
+    await connection.confirmTransaction({ signature, ...latestBlockhash });
+    console.log(
+      `Local validator ready at ${LOCAL_RPC_URL}, owner ${owner} funded with ${OWNER_AIRDROP_SOL} SOL, test mint ${mint}`
+    );
+  } catch (err) {
+    stop();
+    throw err;
+  }
+
+  return { rpcUrl: LOCAL_RPC_URL, mint, stop };
+}
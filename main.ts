@@ -1,175 +1,1195 @@
 import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
+import fs from "fs";
 import prompts from "prompts";
+import { ConfigError, SellModeType, getConfig, loadConfig } from "./config";
+import { TOKEN_DECIMALS } from "./constants";
+import { getMaxSellAmount } from "./quote";
+import { describeVenue, getPoolReserves, getTradingVenue } from "./dex";
 import {
-  PAUSE_ON_INTERRUPTION,
-  PRIVATE_KEY,
-  SOL_RENT,
-  TOKEN_MINT,
-} from "./constants";
+  CliOptionsType,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  USAGE,
+  getConfigOverrides,
+  parseCliArgs,
+} from "./cli";
 import {
+  CampaignType,
+  DEFAULT_CAMPAIGN,
+  createCampaign,
+  getCampaign,
+  getCampaignWallets,
+  getCampaignsFromFile,
+  getDefaultCampaign,
+  parseWalletSelection,
+} from "./campaign";
+import { RunJournal } from "./journal";
+import { startLocalValidator } from "./localValidator";
+import { startPaperTrading } from "./paperTrading";
+import { buildPnlReport, exportPnlReport } from "./pnl";
+import { watchExitRules } from "./exitWatcher";
+import { runTasks, waitForConfirmations } from "./scheduler";
+import {
+  TransferType,
+  assertTransfersSent,
+  sendTransfers,
+} from "./transferBatcher";
+import { DashboardType, buildDashboard } from "./dashboard";
+import {
+  TradeEventType,
+  TradeStreamType,
+  openTradeStream,
+} from "./tradeStream";
+import { CurveCompleteError, ProgramError } from "./programErrors";
+import { deriveWallet, generateMnemonic, validateMnemonic } from "./hdWallet";
+import {
+  disablePassphrasePrompt,
+  exportFile,
+  migrateFiles,
+  promptPassphrase,
+  rekeyFiles,
+  readSecureFile,
+  unlockKeystore,
+} from "./keystore";
+import {
+  PAUSED_FILE,
   PausedWalletInfoType,
+  SEED_FILE,
   WalletInfoType,
+  closeTokenAccounts,
+  drainWallet,
   generateRandomAmounts,
   generateSolanaKeypair,
-  getLatestTokenTransaction,
+  getCoinDataSource,
+  getMnemonicFromFile,
   getPausedState,
+  getTokenAccounts,
   getTokenBalance,
   getWalletBalance,
+  getWalletsFile,
   getWalletsFromFile,
+  isPaperTrading,
   placeBuyTrade,
   placeSellTrade,
   sendSolToWallet,
-  sendTokenToWallet,
   setPausedState,
+  setRpcEndpoints,
+  setRpcUrl,
+  setWalletsFile,
+  storeMnemonicToFile,
   storeWalletsToFile,
-  waitSeconds,
 } from "./utils";
 
 // Get key pair of the main wallet
-const owner = Keypair.fromSecretKey(bs58.decode(PRIVATE_KEY));
+function getOwner() {
+  const { privateKey } = getConfig();
+  if (!privateKey) {
+    throw new Error("PRIVATE_KEY of the main wallet is not configured.");
+  }
+  return Keypair.fromSecretKey(bs58.decode(privateKey));
+}
+
+// Rejections of one wallet's trade leave the others trading, unless the curve is gone.
+// Errors that outlast their retries stop the run.
+function isRunFatal(err: unknown) {
+  return !(err instanceof ProgramError) || err instanceof CurveCompleteError;
+}
+
+function describeError(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Unfunded derivation indices in a row after which wallet recovery stops
+const RECOVERY_GAP_LIMIT = 20;
 
-// Create [numberOfWallets] wallets
-async function generateWallets(numberOfWallets: number) {
+// Token accounts closed per sweep transaction, each with its dust transfer
+const CLOSE_BATCH_SIZE = 5;
+
+// Commands that move funds and end with projected balances in a dry run
+const PROJECTED_COMMANDS = ["buy", "sell", "resume", "watch", "sweep"];
+
+// Create [numberOfWallets] wallets, derived from the stored mnemonic when [deterministic] is set
+export async function generateWallets(
+  numberOfWallets: number,
+  deterministic: boolean,
+  extend: boolean
+) {
   try {
-    const wallets: WalletInfoType[] = [];
-    for (let index = 0; index < numberOfWallets; index++) {
-      const newWallet = generateSolanaKeypair();
-      wallets.push(newWallet);
+    const wallets: WalletInfoType[] = extend ? await getWalletsFromFile() : [];
+    const journal = RunJournal.start("generate", DEFAULT_CAMPAIGN, {
+      numberOfWallets,
+      deterministic,
+      extend,
+      walletsFile: getWalletsFile(),
+      expected: wallets.length + numberOfWallets,
+    });
+
+    if (deterministic) {
+      let mnemonic = await getMnemonicFromFile();
+      if (!mnemonic) {
+        mnemonic = generateMnemonic();
+        await storeMnemonicToFile(mnemonic);
+        console.log(
+          `New mnemonic created, write it down and keep it offline:\n${mnemonic}`
+        );
+      }
+
+      // Continue after the highest derivation index already in use
+      let nextIndex = wallets.reduce(
+        (next, wallet) =>
+          wallet.index !== undefined ? Math.max(next, wallet.index + 1) : next,
+        0
+      );
+      for (let count = 0; count < numberOfWallets; count++) {
+        wallets.push(deriveWallet(mnemonic, nextIndex++));
+      }
+    } else {
+      for (let index = 0; index < numberOfWallets; index++) {
+        const newWallet = generateSolanaKeypair();
+        wallets.push(newWallet);
+      }
     }
 
-    storeWalletsToFile(wallets);
+    await storeWalletsToFile(wallets);
+    journal.finish();
+    return wallets;
   } catch (err) {
     console.error("Error occured in generating wallets: ", err);
   }
 }
 
-// Begin buying process
-async function beginBuying(
+// Rebuild wallets.json from [mnemonic], scanning until [gapLimit] unfunded indices in a row.
+// Recovered wallets are merged into the stored ones by public key, so no stored key is lost.
+export async function recoverWallets(
+  mnemonic: string,
+  gapLimit = RECOVERY_GAP_LIMIT
+) {
+  const { tokenMint } = getConfig();
+
+  try {
+    // Read errors must stop the recovery, an unreadable file would otherwise be replaced
+    const walletsFile = getWalletsFile();
+    const stored: WalletInfoType[] = fs.existsSync(walletsFile)
+      ? await readSecureFile(walletsFile)
+      : [];
+    const storedSeed = fs.existsSync(SEED_FILE)
+      ? await readSecureFile(SEED_FILE)
+      : undefined;
+    if (
+      storedSeed &&
+      deriveWallet(storedSeed.mnemonic, 0).publicKey !==
+        deriveWallet(mnemonic, 0).publicKey
+    ) {
+      throw new Error(
+        `${SEED_FILE} holds a different mnemonic, move it away to recover from this one.`
+      );
+    }
+
+    const recovered: WalletInfoType[] = [];
+    let lastFundedIndex = -1;
+
+    for (let index = 0; index - lastFundedIndex <= gapLimit; index++) {
+      const wallet = deriveWallet(mnemonic, index);
+      const solBalance = await getWalletBalance(wallet.publicKey);
+      const tokenBalance = await getTokenBalance(
+        new PublicKey(wallet.publicKey),
+        new PublicKey(tokenMint)
+      );
+
+      if (solBalance > 0 || tokenBalance > 0) {
+        console.log(
+          `Found funded wallet #${index} ${wallet.publicKey}: ${solBalance} SOL, ${tokenBalance} token`
+        );
+        lastFundedIndex = index;
+      }
+      recovered.push(wallet);
+    }
+
+    if (lastFundedIndex < 0) {
+      console.log(`No funded wallets found in the first ${gapLimit} indices.`);
+      return [];
+    }
+
+    const known = new Set(stored.map((wallet) => wallet.publicKey));
+    const added = recovered
+      .slice(0, lastFundedIndex + 1)
+      .filter((wallet) => !known.has(wallet.publicKey));
+
+    if (!storedSeed) {
+      await storeMnemonicToFile(mnemonic);
+    }
+    await storeWalletsToFile([...stored, ...added]);
+    console.log(
+      `Recovered ${added.length} wallets, kept ${stored.length} already stored.`
+    );
+    return added;
+  } catch (err) {
+    console.error("Error occured in recovering wallets: ", err);
+  }
+}
+
+// Begin buying process of [campaign]
+export async function beginBuying(
+  campaign: CampaignType,
   wallets: WalletInfoType[],
   amounts: number[],
-  resuming: boolean
+  resuming: boolean,
+  journal = RunJournal.start("buy", campaign.name, {
+    wallets: wallets.map((wallet) => wallet.publicKey),
+    amounts,
+    resuming,
+  })
 ) {
+  const { solRent, pauseOnInterruption } = getConfig();
+  const tokenMint = campaign.mint;
+  let stream: TradeStreamType | undefined;
+
   try {
-    // If it's initial phase of buying, send random SOLs from main wallet to generated wallets respectively
+    // If it's initial phase of buying, send random SOLs from main wallet to generated wallets, packed into as few transactions as fit
     if (!resuming) {
-      for (let index = 0; index < wallets.length; index++) {
-        await sendSolToWallet(
-          PRIVATE_KEY,
-          new PublicKey(wallets[index].publicKey),
-          amounts[index]
-        );
-        await waitSeconds(10);
-      }
+      const owner = getOwner();
+      const funded = await sendTransfers(
+        journal,
+        owner,
+        wallets.map((wallet, index) => ({
+          kind: "sol",
+          stepId: `fund:${wallet.publicKey}`,
+          from: owner,
+          to: new PublicKey(wallet.publicKey),
+          lamports: Math.round(amounts[index] * LAMPORTS_PER_SOL),
+        }))
+      );
+      assertTransfersSent(funded);
+      await waitForConfirmations(funded.map((outcome) => outcome.signature));
     }
 
-    let prevTransaction = ""; // To check if the last transaction is made by you, not someone else
-    let index = 0;
-    for (index = 0; index < wallets.length; index++) {
-      // If PAUSE_ON_INTERRUPTION is set true and the last transaction on the target token is not made by you, the buying process should be paused
-      if (PAUSE_ON_INTERRUPTION && index !== 0) {
-        const latestTransaction = await getLatestTokenTransaction(TOKEN_MINT);
-        if (latestTransaction !== prevTransaction) {
-          console.log(
-            "Your transactions have been interrupted by someone else's transactions. Pausing the process..."
-          );
+    // Trades on the curve stream in while buying, to spot ones made by someone else
+    const ownWallets = new Set([
+      getOwner().publicKey.toBase58(),
+      ...wallets.map((wallet) => wallet.publicKey),
+    ]);
+    stream = pauseOnInterruption ? openTradeStream(tokenMint) : undefined;
+    let checkedTrades = 0;
 
-          // When paused, store addresses of pending wallets
-          const remainingWallets: PausedWalletInfoType[] = [];
-          for (let subindex = index; subindex < wallets.length; subindex++) {
-            remainingWallets.push({
-              ...wallets[subindex],
-              amount: amounts[subindex],
-            });
+    // Wallets buy side by side, each one checks for interruptions before it starts
+    let paused = false;
+    const results = await runTasks(
+      wallets,
+      async (wallet, index) => {
+        const stepId = `buy:${wallet.publicKey}`;
+        if (journal.isConfirmed(stepId)) {
+          return "bought";
+        }
+
+        // If PAUSE_ON_INTERRUPTION is set true and someone else traded the target token since the last check, the buying process should be paused
+        if (stream && index !== 0 && !paused) {
+          const interruption = stream.trades
+            .slice(checkedTrades)
+            .find((trade) => !ownWallets.has(trade.user));
+          checkedTrades = stream.trades.length;
+          if (interruption) {
+            console.log(
+              `Your transactions have been interrupted by a ${interruption.side} from ${interruption.user}. Pausing the process...`
+            );
+            paused = true;
           }
-          await setPausedState(remainingWallets);
-          break;
         }
-      }
+        if (paused) {
+          return "paused";
+        }
 
-      // Place buy order
-      const balance = await getWalletBalance(wallets[index].publicKey);
-      const allowedBalance = balance - SOL_RENT;
-      if (allowedBalance > 0) {
+        // Place buy order
+        const balance = await getWalletBalance(wallet.publicKey);
+        const allowedBalance = balance - solRent;
+        if (allowedBalance <= 0) {
+          return "skipped";
+        }
         const amount = (allowedBalance / 2) * LAMPORTS_PER_SOL; // subtract 2 time transfer fee: 15000 * 2
-
-        const txid = await placeBuyTrade(
-          TOKEN_MINT,
-          wallets[index].privateKey,
-          Math.round(amount) / LAMPORTS_PER_SOL
+        const sent = await journal.step(
+          stepId,
+          { amount: Math.round(amount) / LAMPORTS_PER_SOL },
+          (onSubmit) =>
+            placeBuyTrade(
+              tokenMint,
+              wallet.privateKey,
+              Math.round(amount) / LAMPORTS_PER_SOL,
+              onSubmit
+            )
+        );
+        return sent ? "bought" : "unsent";
+      },
+      // Other wallets can still buy after a rejection, unless the curve is gone
+      { isFatal: isRunFatal }
+    );
+    let failed = false;
+    results.forEach((result, index) => {
+      if (result.status === "failed") {
+        console.error(
+          `Buy on ${wallets[index].publicKey} aborted: ${describeError(
+            result.error
+          )}`
         );
-        prevTransaction = txid ? txid : prevTransaction;
-        await waitSeconds(10);
       }
+      failed =
+        failed || result.status === "failed" || result.value === "unsent";
+    });
+
+    // The run stays open so resume retries the wallets that did not buy, the paused
+    // ones included, without storing them twice in the paused state
+    if (failed) {
+      console.error("Buying process incomplete, resume to retry.");
+      return false;
     }
 
-    // If the process is not paused, clear the paused.json
-    if (index >= wallets.length) {
-      await setPausedState([]);
+    // When paused, store addresses of pending wallets
+    if (paused) {
+      const remainingWallets: PausedWalletInfoType[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "done" && result.value === "paused") {
+          remainingWallets.push({ ...wallets[index], amount: amounts[index] });
+        }
+      });
+      await setPausedState(tokenMint, remainingWallets, campaign.stateFile);
+      journal.finish("paused");
+    } else {
+      // If the process is not paused, clear the paused state of the campaign
+      await setPausedState(tokenMint, [], campaign.stateFile);
+      journal.finish();
     }
+    return true;
   } catch (err) {
+    if (err instanceof ProgramError) {
+      console.error(`Buying process aborted: ${err.message}`);
+      return false;
+    }
     console.error("Error in buying process: ", err);
+    return false;
+  } finally {
+    await stream?.close();
   }
 }
 
-// Begin selling process
-async function beginSelling(wallets: WalletInfoType[]) {
+export type SellOptionsType = {
+  mode: SellModeType;
+  percent?: number; // of each wallet's tokens, 100 when neither percent nor amount is set
+  amount?: number; // tokens per wallet, instead of a percentage
+};
+
+// Token balance each selling wallet should end with, computed once when a sell run starts
+async function planSellTargets(
+  tokenMint: string,
+  wallets: WalletInfoType[],
+  options: SellOptionsType
+) {
+  let held = 0;
+  let sold = 0;
+  const targets: Record<string, number> = {};
+
+  for (const wallet of wallets) {
+    const balance = await getTokenBalance(
+      new PublicKey(wallet.publicKey),
+      new PublicKey(tokenMint)
+    );
+    const amount =
+      options.amount !== undefined
+        ? Math.min(options.amount, balance)
+        : (balance * (options.percent ?? 100)) / 100;
+    held += balance;
+    sold += amount;
+    targets[wallet.publicKey] = balance - amount;
+  }
+
+  // Consolidation moves every token into the first wallet, which sells the sum
+  if (options.mode === "consolidate") {
+    return { [wallets[0].publicKey]: held - sold };
+  }
+  return targets;
+}
+
+// Largest tranche of [remaining] tokens that stays under the configured price impact ceiling
+async function getTrancheAmount(tokenMint: string, remaining: number) {
+  const { maxPriceImpact } = getConfig();
+  if (maxPriceImpact <= 0) {
+    return remaining;
+  }
+
+  // Migrated tokens are sized against their pool, the sell reports a missing one
+  const venue = await getTradingVenue(tokenMint);
+  if (venue.kind === "none") {
+    return remaining;
+  }
+  const reserves =
+    venue.kind === "dex"
+      ? getPoolReserves(venue.pool)
+      : await getCoinDataSource().getBondingCurve(tokenMint);
+  const maxAmount =
+    Number(getMaxSellAmount(reserves, maxPriceImpact)) / 10 ** TOKEN_DECIMALS;
+  return Math.min(remaining, Math.max(maxAmount, 1 / 10 ** TOKEN_DECIMALS));
+}
+
+// Sell the tokens of [wallet] down to [target], one journal step per tranche
+async function sellDownTo(
+  journal: RunJournal,
+  tokenMint: string,
+  wallet: WalletInfoType,
+  target: number
+) {
+  for (let tranche = 0; ; tranche++) {
+    const stepId = `sell:${wallet.publicKey}:${tranche}`;
+    if (journal.isConfirmed(stepId)) {
+      continue;
+    }
+
+    // Remaining amount comes from the chain, so a resumed run never sells twice
+    const balance = await getTokenBalance(
+      new PublicKey(wallet.publicKey),
+      new PublicKey(tokenMint)
+    );
+    const remaining = balance - target;
+    if (remaining < 1 / 10 ** TOKEN_DECIMALS) {
+      if (tranche === 0) {
+        console.log(
+          `There is no token available to swap with SOL on ${wallet.publicKey}`
+        );
+      }
+      return true;
+    }
+
+    const amount = await getTrancheAmount(tokenMint, remaining);
+    if (amount < remaining || tranche > 0) {
+      console.log(
+        `Tranche ${tranche + 1}: selling ${amount.toFixed(2)} of ${remaining.toFixed(2)} remaining tokens`
+      );
+    }
+    const sent = await journal.step(stepId, { amount, tranche }, (onSubmit) =>
+      placeSellTrade(tokenMint, wallet.privateKey, amount, onSubmit)
+    );
+    if (!sent) {
+      return false;
+    }
+    if (amount < remaining) {
+      await waitForConfirmations([journal.getStep(stepId)?.signature]);
+    }
+  }
+}
+
+// Begin selling process of [campaign]: consolidate into the first wallet and sell there,
+// or sell straight from every wallet. [options] pick how much of each wallet's tokens go.
+export async function beginSelling(
+  campaign: CampaignType,
+  wallets: WalletInfoType[],
+  options: SellOptionsType = { mode: getConfig().sellMode },
+  journal?: RunJournal
+) {
+  const { solRent } = getConfig();
+  const tokenMint = campaign.mint;
+
   try {
-    // Send all available tokens and SOLs from all generated wallets to first generated wallet
+    const run =
+      journal ??
+      RunJournal.start("sell", campaign.name, {
+        wallets: wallets.map((wallet) => wallet.publicKey),
+        mode: options.mode,
+        targets: await planSellTargets(tokenMint, wallets, options),
+      });
+    // Runs recorded before sell modes existed sold everything from the first wallet
+    const targets: Record<string, number> = run.run.params.targets ?? {};
+
+    if (options.mode === "direct") {
+      const results = await runTasks(
+        wallets,
+        (wallet) =>
+          sellDownTo(run, tokenMint, wallet, targets[wallet.publicKey] ?? 0),
+        { isFatal: isRunFatal }
+      );
+      let failed = false;
+      results.forEach((result, index) => {
+        if (result.status === "failed") {
+          console.error(
+            `Sell on ${wallets[index].publicKey} aborted: ${describeError(
+              result.error
+            )}`
+          );
+        }
+        failed = failed || result.status === "failed" || !result.value;
+      });
+      // The run stays open so resume sells what is left
+      if (failed) {
+        console.error("Selling process incomplete, resume to retry.");
+        return false;
+      }
+      run.finish();
+      return true;
+    }
+
+    // Send all available tokens and SOLs from all generated wallets to first generated wallet,
+    // packed into as few transactions as fit with the first wallet paying every fee
+    const collector = Keypair.fromSecretKey(bs58.decode(wallets[0].privateKey));
+    const transfers: TransferType[] = [];
     for (let index = 1; index < wallets.length; index++) {
-      const tokenBalance = await getTokenBalance(
-        new PublicKey(wallets[index].publicKey),
-        new PublicKey(TOKEN_MINT)
+      const from = Keypair.fromSecretKey(
+        bs58.decode(wallets[index].privateKey)
       );
 
-      if (tokenBalance > 0) {
-        await sendTokenToWallet(
-          wallets[index].privateKey,
-          new PublicKey(wallets[0].publicKey),
-          TOKEN_MINT,
-          tokenBalance
-        );
-        await waitSeconds(10);
-      } else {
+      const tokenStepId = `token:${wallets[index].publicKey}`;
+      const tokenAccount = run.isConfirmed(tokenStepId)
+        ? undefined
+        : (await getTokenAccounts(from.publicKey)).find(
+            (account) => account.mint.toBase58() === tokenMint
+          );
+      if (tokenAccount && tokenAccount.amount > BigInt(0)) {
+        transfers.push({
+          kind: "token",
+          stepId: tokenStepId,
+          from,
+          to: collector.publicKey,
+          mint: tokenAccount.mint,
+          amount: tokenAccount.amount,
+          decimals: tokenAccount.decimals,
+        });
+      } else if (!run.isConfirmed(tokenStepId)) {
         console.log(
           `Token balance is apparently 0 on ${wallets[index].publicKey}.`
         );
       }
 
+      const solStepId = `sol:${wallets[index].publicKey}`;
+      if (run.isConfirmed(solStepId)) {
+        continue;
+      }
       const solBalance = await getWalletBalance(wallets[index].publicKey);
-      const amount = solBalance - SOL_RENT;
+      const amount = solBalance - solRent;
       if (amount > 0) {
-        await sendSolToWallet(
-          wallets[index].privateKey,
-          new PublicKey(wallets[0].publicKey),
-          amount
-        ); // subtract sol transfer fee
-        await waitSeconds(10);
+        transfers.push({
+          kind: "sol",
+          stepId: solStepId,
+          from,
+          to: collector.publicKey,
+          lamports: Math.round(amount * LAMPORTS_PER_SOL),
+        });
       }
     }
+    const consolidated = await sendTransfers(run, collector, transfers);
+    assertTransfersSent(consolidated);
+    await waitForConfirmations(
+      consolidated.map((outcome) => outcome.signature)
+    );
 
     // Sell SPL tokens to get SOL back on the first generated wallet
-    const tokenBalance = await getTokenBalance(
-      new PublicKey(wallets[0].publicKey),
-      new PublicKey(TOKEN_MINT)
+    const sold = await sellDownTo(
+      run,
+      tokenMint,
+      wallets[0],
+      targets[wallets[0].publicKey] ?? 0
     );
-    if (tokenBalance) {
-      await placeSellTrade(TOKEN_MINT, wallets[0].privateKey, tokenBalance);
-    } else {
-      console.log(
-        `There is no token available to swap with SOL on ${wallets[0].publicKey}`
-      );
+    if (!sold) {
+      console.error("Selling process incomplete, resume to retry.");
+      return false;
     }
 
     // Send all available SOL from the first generated wallet to the main wallet
-    await waitSeconds(10);
+    await waitForConfirmations(
+      run
+        .getConfirmedSteps()
+        .filter((step) =>
+          step.stepId.startsWith(`sell:${wallets[0].publicKey}:`)
+        )
+        .map((step) => step.signature)
+    );
     const solBalance = await getWalletBalance(wallets[0].publicKey);
-    const amount = solBalance - SOL_RENT;
+    const amount = solBalance - solRent;
     if (amount > 0) {
-      await sendSolToWallet(wallets[0].privateKey, owner.publicKey, amount);
+      const returned = await run.step(
+        `return:${wallets[0].publicKey}`,
+        { amount },
+        (onSubmit) =>
+          sendSolToWallet(
+            wallets[0].privateKey,
+            getOwner().publicKey,
+            amount,
+            onSubmit
+          )
+      );
+      if (!returned) {
+        console.error("Selling process incomplete, resume to retry.");
+        return false;
+      }
     }
+    run.finish();
+    return true;
   } catch (err) {
+    if (err instanceof ProgramError) {
+      console.error(`Selling process aborted: ${err.message}`);
+      return false;
+    }
     console.error("Error in selling process: ", err);
+    return false;
+  }
+}
+
+// Fund the wallets of [campaign] with random amounts and buy
+async function startBuying(campaign = getDefaultCampaign()) {
+  const wallets = getCampaignWallets(campaign, await getWalletsFromFile());
+
+  if (wallets.length === 0) {
+    console.log("No wallet exist.");
+    return false;
+  }
+
+  console.log(`Beginning buying process of campaign ${campaign.name}...`);
+
+  const amounts = generateRandomAmounts(
+    wallets.length,
+    campaign.solBuyMin,
+    campaign.solBuyMax
+  );
+
+  const mainWalletBalance = await getWalletBalance(
+    getOwner().publicKey.toString()
+  );
+  const neededBalance = amounts.reduce(
+    (sum, currentVal) => sum + currentVal,
+    0
+  );
+
+  // Check if the main wallet has enough SOL balance to send to all generated wallets
+  if (neededBalance + getConfig().solRent > mainWalletBalance) {
+    console.error("Insufficient balance in the main wallet.");
+    return false;
+  }
+
+  return await beginBuying(campaign, wallets, amounts, false);
+}
+
+// Continue a run that was interrupted before it recorded its end
+async function continueRun(campaign: CampaignType, journal: RunJournal) {
+  const { kind, params, runId } = journal.run;
+  console.log(`Continuing interrupted ${kind} run ${runId}...`);
+
+  if (kind === "generate") {
+    const existing: WalletInfoType[] = await getWalletsFromFile();
+    // Wallets may have been stored right before the interruption
+    if (existing.length >= params.expected) {
+      journal.finish();
+      return true;
+    }
+    return !!(await generateWallets(
+      params.numberOfWallets,
+      params.deterministic,
+      params.extend
+    ));
+  }
+
+  // Look up private keys of the run's wallets again, they are never journaled
+  const allWallets: WalletInfoType[] = await getWalletsFromFile();
+  const wallets = (params.wallets as string[]).map((publicKey) => {
+    const wallet = allWallets.find((wallet) => wallet.publicKey === publicKey);
+    if (!wallet) {
+      throw new Error(`Wallet ${publicKey} of run ${runId} is missing.`);
+    }
+    return wallet;
+  });
+
+  if (kind === "sweep") {
+    await sweepWallets(wallets, journal);
+    return true;
+  }
+  if (kind === "buy") {
+    return await beginBuying(
+      campaign,
+      wallets,
+      params.amounts,
+      params.resuming,
+      journal
+    );
+  }
+  return await beginSelling(
+    campaign,
+    wallets,
+    { mode: params.mode ?? "consolidate" },
+    journal
+  );
+}
+
+// Continue interrupted runs of [campaign], then the buying process stored in its state file
+export async function resumeProcess(campaign = getDefaultCampaign()) {
+  let ok = true;
+  const interrupted = RunJournal.findInterrupted(campaign.name);
+  for (const journal of interrupted) {
+    ok = (await continueRun(campaign, journal)) && ok;
+  }
+
+  const state = await getPausedState(campaign.stateFile);
+
+  if (state.wallets.length === 0) {
+    if (interrupted.length === 0) {
+      console.log("There is no process to resume.");
+    }
+    return ok;
+  }
+  if (state.mint && state.mint !== campaign.mint) {
+    console.error(
+      `Paused process belongs to ${state.mint}, not to ${campaign.mint} of campaign ${campaign.name}.`
+    );
+    return false;
+  }
+
+  console.log(`Resuming buying process of campaign ${campaign.name}...`);
+  return (
+    (await beginBuying(
+      campaign,
+      state.wallets,
+      state.wallets.map((wallet) => wallet.amount),
+      true
+    )) && ok
+  );
+}
+
+// Ask how to sell: mode and how much of each wallet's tokens
+async function promptSellOptions(): Promise<SellOptionsType> {
+  const { mode, share } = await prompts([
+    {
+      type: "select",
+      name: "mode",
+      message: "Sell mode:",
+      choices: [
+        {
+          title: "Consolidate into the first wallet, then sell",
+          value: "consolidate",
+        },
+        { title: "Sell directly from every wallet", value: "direct" },
+      ],
+      initial: getConfig().sellMode === "direct" ? 1 : 0,
+    },
+    {
+      type: "select",
+      name: "share",
+      message: "How much of each wallet's tokens:",
+      choices: [
+        { title: "Everything", value: "all" },
+        { title: "A percentage", value: "percent" },
+        { title: "A token amount", value: "amount" },
+      ],
+    },
+  ]);
+
+  if (share === "percent") {
+    const { percent } = await prompts({
+      type: "number",
+      name: "percent",
+      message: "Percent to sell:",
+      min: 1,
+      max: 100,
+      initial: 50,
+    });
+    return { mode, percent };
+  }
+  if (share === "amount") {
+    const { amount } = await prompts({
+      type: "number",
+      name: "amount",
+      message: "Tokens to sell per wallet:",
+      float: true,
+      round: 6,
+    });
+    return { mode, amount };
+  }
+  return { mode };
+}
+
+// Sell the tokens held by the wallets of [campaign]
+async function startSelling(
+  campaign = getDefaultCampaign(),
+  options?: SellOptionsType
+) {
+  const wallets = getCampaignWallets(campaign, await getWalletsFromFile());
+
+  if (wallets.length === 0) {
+    console.log("No wallet exist.");
+    return false;
+  }
+
+  console.log(`Beginning selling process of campaign ${campaign.name}...`);
+  return await beginSelling(campaign, wallets, options);
+}
+
+// Sell the tokens of [campaign] once its take-profit, stop-loss, trailing-stop or time exit triggers
+async function watchCampaign(campaign = getDefaultCampaign()) {
+  const wallets = getCampaignWallets(campaign, await getWalletsFromFile());
+
+  if (wallets.length === 0) {
+    console.log("No wallet exist.");
+    return false;
+  }
+
+  return await watchExitRules(
+    campaign,
+    getOwner().publicKey,
+    wallets,
+    (holders, percent) =>
+      beginSelling(campaign, holders, { mode: "direct", percent })
+  );
+}
+
+// One line per trade for the live view, marking trades made by the bot's wallets
+function formatTrade(trade: TradeEventType, ownWallets: Set<string>) {
+  const price =
+    Number(trade.virtualSolReserves) /
+    LAMPORTS_PER_SOL /
+    (Number(trade.virtualTokenReserves) / 10 ** TOKEN_DECIMALS);
+  return `${new Date(trade.timestamp * 1000).toISOString()} ${trade.side.toUpperCase()} ${(
+    Number(trade.tokenAmount) /
+    10 ** TOKEN_DECIMALS
+  ).toFixed(
+    2
+  )} tokens for ${(Number(trade.solAmount) / LAMPORTS_PER_SOL).toFixed(6)} SOL by ${trade.user}${
+    ownWallets.has(trade.user) ? " (own)" : ""
+  }, price ${price.toExponential(4)} SOL ${trade.signature}`;
+}
+
+// Stream the buys and sells on the curve of [campaign] until [stopped] resolves
+async function streamTrades(
+  campaign: CampaignType,
+  stopped: Promise<unknown>,
+  print = true
+) {
+  const wallets: WalletInfoType[] = await getWalletsFromFile();
+  const ownWallets = new Set([
+    getOwner().publicKey.toBase58(),
+    ...wallets.map((wallet) => wallet.publicKey),
+  ]);
+  const stream = openTradeStream(campaign.mint, {
+    onTrade: (trade) => {
+      if (print) {
+        console.log(formatTrade(trade, ownWallets));
+      }
+    },
+  });
+
+  await stopped;
+  await stream.close();
+  return stream.trades.map((trade) => ({
+    ...trade,
+    solAmount: trade.solAmount.toString(),
+    tokenAmount: trade.tokenAmount.toString(),
+    virtualSolReserves: trade.virtualSolReserves.toString(),
+    virtualTokenReserves: trade.virtualTokenReserves.toString(),
+  }));
+}
+
+// Get balances, supply share and sell quote of the main wallet and every generated wallet
+async function getBalances() {
+  const wallets: WalletInfoType[] = await getWalletsFromFile();
+  const main = getConfig().privateKey
+    ? [{ publicKey: getOwner().publicKey.toBase58(), label: "main" }]
+    : [];
+  return await buildDashboard([...main, ...wallets], getConfig().tokenMint);
+}
+
+function printBalances(dashboard: DashboardType) {
+  console.log(
+    `${dashboard.mint}: ${dashboard.venue}, supply ${dashboard.supply} tokens`
+  );
+  console.table([
+    ...dashboard.positions,
+    { publicKey: "total", ...dashboard.totals },
+  ]);
+}
+
+// Empty every generated wallet into the main wallet: leftover tokens are transferred
+// or burned, token accounts closed for their rent, and the SOL drained to zero
+export async function sweepWallets(
+  wallets?: WalletInfoType[],
+  journal?: RunJournal
+) {
+  const { dustMode } = getConfig();
+  const owner = getOwner().publicKey;
+  const sweepable: WalletInfoType[] = wallets ?? (await getWalletsFromFile());
+  const run =
+    journal ??
+    RunJournal.start("sweep", DEFAULT_CAMPAIGN, {
+      wallets: sweepable.map((wallet) => wallet.publicKey),
+    });
+  const swept = [];
+  let failed = false;
+
+  for (const wallet of sweepable) {
+    const stepId = `sweep:${wallet.publicKey}`;
+    if (run.isConfirmed(stepId)) {
+      continue;
+    }
+    const accounts = await getTokenAccounts(new PublicKey(wallet.publicKey));
+    const summary = {
+      publicKey: wallet.publicKey,
+      label: wallet.label,
+      sol: await getWalletBalance(wallet.publicKey),
+      dust: 0, // tokens transferred or burned
+      closed: 0, // token accounts closed
+      rent: 0, // SOL reclaimed from closed accounts
+      swept: 0, // SOL received by the main wallet
+      left: 0,
+    };
+
+    try {
+      // Accounts closed by an earlier attempt are gone, so batches are keyed by their first account
+      for (let start = 0; start < accounts.length; start += CLOSE_BATCH_SIZE) {
+        const batch = accounts.slice(start, start + CLOSE_BATCH_SIZE);
+        await run.step(
+          `close:${wallet.publicKey}:${batch[0].address.toBase58()}`,
+          {
+            accounts: batch.map((account) => account.address.toBase58()),
+            dustMode,
+          },
+          (onSubmit) =>
+            closeTokenAccounts(
+              wallet.privateKey,
+              owner,
+              batch,
+              dustMode,
+              onSubmit
+            )
+        );
+        for (const account of batch) {
+          summary.dust += Number(account.amount) / 10 ** account.decimals;
+          summary.closed++;
+          summary.rent += account.lamports / LAMPORTS_PER_SOL;
+        }
+      }
+
+      if ((await getWalletBalance(wallet.publicKey)) > 0) {
+        await run.step(stepId, {}, async (onSubmit) => {
+          const drained = await drainWallet(wallet.privateKey, owner, onSubmit);
+          summary.swept = drained.lamports / LAMPORTS_PER_SOL;
+          return drained.signature;
+        });
+      }
+    } catch (err) {
+      // The run stays open so resume picks up the wallets that failed
+      failed = true;
+      console.error(`Sweep of ${wallet.publicKey} aborted: `, err);
+    }
+    summary.left = await getWalletBalance(wallet.publicKey);
+    swept.push(summary);
+  }
+
+  if (!failed) {
+    run.finish();
+  }
+  return swept;
+}
+
+// Build the PnL report of [campaign] (all runs if unset) and print or export it
+async function showPnlReport(
+  campaign?: string,
+  exportFile?: string,
+  print = true
+) {
+  const report = await buildPnlReport(
+    getOwner().publicKey,
+    await getWalletsFromFile(),
+    campaign
+  );
+
+  if (print) {
+    console.table(report.runs);
+    console.table(report.wallets);
+    console.log(
+      `Realized ${report.totals.realized.toFixed(6)} SOL, unrealized ${report.totals.unrealized.toFixed(6)} SOL` +
+        (report.solPrice !== undefined
+          ? ` ($${report.totals.realizedUsd!.toFixed(2)} / $${report.totals.unrealizedUsd!.toFixed(2)} at $${report.solPrice})`
+          : "")
+    );
+  }
+  if (exportFile) {
+    exportPnlReport(report, exportFile);
+  }
+  return report;
+}
+
+// Summarize campaigns for listing, including the default one
+function listCampaigns() {
+  return [getDefaultCampaign(), ...getCampaignsFromFile()].map((campaign) => ({
+    name: campaign.name,
+    mint: campaign.mint,
+    wallets: campaign.wallets.length || "all",
+    solBuyMin: campaign.solBuyMin,
+    solBuyMax: campaign.solBuyMax,
+  }));
+}
+
+// List, create, start, resume or sell out a campaign
+async function manageCampaigns() {
+  try {
+    const { action } = await prompts({
+      type: "select",
+      name: "action",
+      message: "Campaign action:",
+      choices: [
+        { title: "List campaigns", value: "list" },
+        { title: "Create campaign", value: "create" },
+        { title: "Start buying", value: "buy" },
+        { title: "Resume", value: "resume" },
+        { title: "Sell out", value: "sell" },
+      ],
+    });
+
+    if (action === "list") {
+      console.table(listCampaigns());
+      return;
+    }
+
+    if (action === "create") {
+      const config = getConfig();
+      const wallets: WalletInfoType[] = await getWalletsFromFile();
+      const answers = await prompts([
+        { type: "text", name: "name", message: "Campaign name:" },
+        { type: "text", name: "mint", message: "Token mint address:" },
+        {
+          type: "multiselect",
+          name: "wallets",
+          message: "Wallets of the campaign (select none for all):",
+          choices: wallets.map((wallet, index) => ({
+            title: `#${index} ${wallet.label ?? ""} ${wallet.publicKey}`,
+            value: wallet.publicKey,
+          })),
+        },
+        {
+          type: "number",
+          name: "min",
+          message: "Min SOL per wallet:",
+          float: true,
+          round: 9,
+          initial: config.solBuyMin,
+        },
+        {
+          type: "number",
+          name: "max",
+          message: "Max SOL per wallet:",
+          float: true,
+          round: 9,
+          initial: config.solBuyMax,
+        },
+      ]);
+      createCampaign(
+        answers.name,
+        answers.mint,
+        answers.wallets ?? [],
+        answers.min,
+        answers.max
+      );
+      return;
+    }
+
+    const { name } = await prompts({
+      type: "select",
+      name: "name",
+      message: "Campaign:",
+      choices: listCampaigns().map((campaign) => ({
+        title: `${campaign.name} (${campaign.mint})`,
+        value: campaign.name,
+      })),
+    });
+    const campaign = getCampaign(name);
+
+    if (action === "buy") {
+      await startBuying(campaign);
+    } else if (action === "resume") {
+      await resumeProcess(campaign);
+    } else if (action === "sell") {
+      await startSelling(campaign, await promptSellOptions());
+    }
+  } catch (err) {
+    console.error("Error in managing campaigns: ", err);
+  }
+}
+
+// Run the campaign subcommand
+async function runCampaignCommand(options: CliOptionsType) {
+  if (options.campaignAction === "list") {
+    const campaigns = listCampaigns();
+    if (!options.json) {
+      console.table(campaigns);
+    }
+    return { ok: true, campaigns };
+  }
+
+  const wallets: WalletInfoType[] = await getWalletsFromFile();
+  const selected = options.select
+    ? parseWalletSelection(options.select, wallets.length).map(
+        (index) => wallets[index].publicKey
+      )
+    : [];
+  const config = getConfig();
+  const campaign = createCampaign(
+    options.name!,
+    options.mint!,
+    selected,
+    options.min ?? config.solBuyMin,
+    options.max ?? config.solBuyMax
+  );
+  return { ok: true, campaign };
+}
+
+// Create, unlock, re-key or export the encrypted keystore
+async function manageKeystore() {
+  try {
+    const files = [
+      getWalletsFile(),
+      PAUSED_FILE,
+      SEED_FILE,
+      ...getCampaignsFromFile().map((campaign) => campaign.stateFile),
+    ];
+    const response = await prompts({
+      type: "select",
+      name: "action",
+      message: "Keystore action:",
+      choices: [
+        { title: "Create (encrypt plaintext files)", value: "create" },
+        { title: "Unlock", value: "unlock" },
+        { title: "Change passphrase", value: "rekey" },
+        { title: "Export plaintext wallets", value: "export" },
+      ],
+    });
+
+    if (response.action === "create") {
+      unlockKeystore(
+        await promptPassphrase("Choose a keystore passphrase:", true)
+      );
+      await migrateFiles(files);
+    } else if (response.action === "unlock") {
+      unlockKeystore(await promptPassphrase("Keystore passphrase:"));
+      await readSecureFile(getWalletsFile());
+      console.log("Keystore unlocked.");
+    } else if (response.action === "rekey") {
+      await rekeyFiles(
+        files,
+        await promptPassphrase("Choose a new keystore passphrase:", true)
+      );
+    } else if (response.action === "export") {
+      const { exportPath } = await prompts({
+        type: "text",
+        name: "exportPath",
+        message: "Export to:",
+        initial: "wallets.export.json",
+      });
+      await exportFile(getWalletsFile(), exportPath);
+    }
+  } catch (err) {
+    console.error("Error in managing keystore: ", err);
+  }
+}
+
+// Where [mint] trades now, shown in the main menu so migrations are noticed
+async function getVenueStatus(mint: string) {
+  if (!mint) {
+    return "no token mint configured";
+  }
+  try {
+    return `${mint}: ${describeVenue(await getTradingVenue(mint))}`;
+  } catch {
+    return `${mint} has no bonding curve`;
   }
 }
 
@@ -177,15 +1197,24 @@ async function main() {
   let shouldContinue = true;
 
   while (shouldContinue) {
+    const venue = await getVenueStatus(getConfig().tokenMint);
     let response = await prompts({
       type: "select",
       name: "action",
-      message: "What would you like to do?",
+      message: `What would you like to do? (${venue})`,
       choices: [
         { title: "Generate wallets", value: "generate" },
+        { title: "Recover wallets from mnemonic", value: "recover" },
         { title: "Begin buying tokens", value: "buy" },
         { title: "Begin selling tokens", value: "sell" },
         { title: "Resume process", value: "resume" },
+        { title: "Watch exit rules", value: "watch" },
+        { title: "Stream live trades", value: "trades" },
+        { title: "Show balances", value: "balances" },
+        { title: "Sweep and close sub-wallets", value: "sweep" },
+        { title: "Profit and loss report", value: "report" },
+        { title: "Campaigns", value: "campaigns" },
+        { title: "Manage keystore", value: "keystore" },
         { title: "Exit", value: "exit" },
       ],
     });
@@ -203,60 +1232,276 @@ async function main() {
         break;
       }
 
-      console.log("Generating wallets...");
+      const options = await prompts([
+        {
+          type: "toggle",
+          name: "deterministic",
+          message: "Derive wallets from a mnemonic?",
+          initial: true,
+          active: "yes",
+          inactive: "no",
+        },
+        {
+          type: "toggle",
+          name: "extend",
+          message: "Add to the existing wallets?",
+          initial: false,
+          active: "yes",
+          inactive: "no",
+        },
+      ]);
 
-      await generateWallets(parseInt(numberOfWallets.amount));
-    } else if (response.action === "buy") {
-      // Buy process
-      const wallets: WalletInfoType[] = await getWalletsFromFile();
-
-      if (wallets.length > 0) {
-        console.log("Beginning buying process...");
+      console.log("Generating wallets...");
 
-        const amounts = generateRandomAmounts(wallets.length);
+      await generateWallets(
+        parseInt(numberOfWallets.amount),
+        !!options.deterministic,
+        !!options.extend
+      );
+    } else if (response.action === "recover") {
+      const { mnemonic } = await prompts({
+        type: "password",
+        name: "mnemonic",
+        message: "Enter the mnemonic (leave empty to use the stored one):",
+      });
 
-        const mainWalletBalance = await getWalletBalance(
-          owner.publicKey.toString()
-        );
-        const neededBalance = amounts.reduce(
-          (sum, currentVal) => sum + currentVal,
-          0
-        );
+      const phrase = mnemonic || (await getMnemonicFromFile());
+      if (!phrase || !validateMnemonic(phrase)) {
+        console.error("Invalid mnemonic.");
+        continue;
+      }
 
-        // Check if the main wallet has enough SOL balance to send to all generated wallets
-        if (neededBalance + SOL_RENT > mainWalletBalance) {
-          console.error("Insufficient balance in the main wallet.");
-          break;
-        }
+      console.log("Recovering wallets...");
 
-        await beginBuying(wallets, amounts, false);
-      } else {
-        console.log("No wallet exist.");
-      }
+      await recoverWallets(phrase);
+    } else if (response.action === "buy") {
+      await startBuying();
     } else if (response.action === "sell") {
-      console.log("Beginning selling process...");
-
-      const wallets: [] = await getWalletsFromFile();
-      await beginSelling(wallets);
+      await startSelling(undefined, await promptSellOptions());
     } else if (response.action === "resume") {
-      const wallets: [] = await getPausedState();
-      if (wallets.length > 0) {
-        console.log("Resuming buying process...");
-        await beginBuying(
-          wallets,
-          wallets.map((wallet: PausedWalletInfoType) => wallet.amount),
-          true
-        );
-      } else {
-        console.log("There is no process to resume.");
-      }
+      await resumeProcess();
+    } else if (response.action === "watch") {
+      await watchCampaign();
+    } else if (response.action === "trades") {
+      const campaign = getDefaultCampaign();
+      console.log(`Streaming trades of ${campaign.mint}...`);
+      await streamTrades(
+        campaign,
+        prompts({
+          type: "text",
+          name: "stop",
+          message: "Press enter to stop streaming",
+        })
+      );
+    } else if (response.action === "balances") {
+      printBalances(await getBalances());
+    } else if (response.action === "sweep") {
+      console.table(await sweepWallets());
+    } else if (response.action === "report") {
+      await showPnlReport();
+    } else if (response.action === "campaigns") {
+      await manageCampaigns();
+    } else if (response.action === "keystore") {
+      await manageKeystore();
     } else if (response.action === "exit") {
       shouldContinue = false;
       console.log("Application exited.");
     } else {
       console.error("Invalid option. Please choose a valid option.");
     }
+
+    if (isPaperTrading() && PROJECTED_COMMANDS.includes(response.action)) {
+      console.log("Projected balances after the dry run:");
+      printBalances(await getBalances());
+    }
   }
 }
 
-main().catch((err) => console.error(err));
+// Run a single subcommand and return the process exit code
+async function runCommand(options: CliOptionsType) {
+  let ok = true;
+  let result: Record<string, any> = {};
+
+  switch (options.command) {
+    case "generate": {
+      const wallets = await generateWallets(
+        options.count!,
+        options.mnemonic,
+        options.extend
+      );
+      ok = !!wallets;
+      result.wallets = (wallets ?? []).map(({ publicKey, index, label }) => ({
+        publicKey,
+        index,
+        label,
+      }));
+      break;
+    }
+    case "recover": {
+      const mnemonic = await getMnemonicFromFile();
+      if (!mnemonic || !validateMnemonic(mnemonic)) {
+        console.error(
+          `recover needs a valid mnemonic in MNEMONIC or ${SEED_FILE}.`
+        );
+        ok = false;
+        break;
+      }
+      const wallets = await recoverWallets(mnemonic);
+      ok = !!wallets;
+      result.recovered = (wallets ?? []).map(({ publicKey, index }) => ({
+        publicKey,
+        index,
+      }));
+      break;
+    }
+    case "buy":
+      ok = await startBuying(getCampaign(options.campaign));
+      break;
+    case "sell":
+      ok = await startSelling(getCampaign(options.campaign), {
+        mode: getConfig().sellMode,
+        percent: options.percent,
+        amount: options.amount,
+      });
+      break;
+    case "resume":
+      ok = await resumeProcess(getCampaign(options.campaign));
+      break;
+    case "watch":
+      ok = await watchCampaign(getCampaign(options.campaign));
+      break;
+    case "trades": {
+      const campaign = getCampaign(options.campaign);
+      if (!options.json) {
+        console.log(
+          `Streaming trades of ${campaign.mint}, press Ctrl+C to stop...`
+        );
+      }
+      result.trades = await streamTrades(
+        campaign,
+        new Promise((resolve) => process.once("SIGINT", resolve)),
+        !options.json
+      );
+      break;
+    }
+    case "campaign": {
+      const { ok: campaignOk, ...campaignResult } =
+        await runCampaignCommand(options);
+      ok = campaignOk;
+      result = campaignResult;
+      break;
+    }
+    case "balances":
+      result.balances = await getBalances();
+      if (!options.json) {
+        printBalances(result.balances);
+      }
+      break;
+    case "sweep":
+      result.swept = await sweepWallets();
+      if (!options.json) {
+        console.table(result.swept);
+      }
+      break;
+    case "report":
+      result.report = await showPnlReport(
+        options.campaign,
+        options.export,
+        !options.json
+      );
+      break;
+  }
+
+  // Paper state carries over between the steps, show where it ended up
+  if (isPaperTrading() && PROJECTED_COMMANDS.includes(options.command!)) {
+    result.projected = await getBalances();
+    if (!options.json) {
+      console.log("Projected balances after the dry run:");
+      printBalances(result.projected);
+    }
+  }
+
+  if (options.json) {
+    process.stdout.write(
+      JSON.stringify({ command: options.command, ok, ...result }, null, 2) +
+        "\n"
+    );
+  }
+  return ok ? EXIT_OK : EXIT_FAILURE;
+}
+
+// Apply flags shared by the menu and the subcommands
+function applyOptions(options: CliOptionsType) {
+  const config = loadConfig(getConfigOverrides(options));
+
+  // --rpc picks one endpoint over the configured pool
+  setRpcEndpoints(
+    config.rpcEndpoints.length > 0 && !options.rpc
+      ? config.rpcEndpoints
+      : [{ url: config.rpcUrl, weight: 1 }]
+  );
+  if (options.wallets) {
+    setWalletsFile(options.wallets);
+  }
+  if (options.command || options.json) {
+    // Nobody may be at the terminal, a prompt would stall the command or garble its output
+    disablePassphrasePrompt();
+  }
+  if (options.json) {
+    // Keep stdout clean for the JSON result
+    console.log = console.error;
+  }
+}
+
+// Boot solana-test-validator when the selected profile asks for it, then fork it for a dry run
+async function prepareNetwork(options: CliOptionsType) {
+  const { localValidator, tokenMint } = getConfig();
+  if (localValidator) {
+    const validator = await startLocalValidator(
+      getOwner().publicKey,
+      new PublicKey(tokenMint)
+    );
+    setRpcUrl(validator.rpcUrl);
+  }
+
+  if (options.dryRun) {
+    startPaperTrading();
+  }
+}
+
+function start() {
+  let options: CliOptionsType;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+    applyOptions(options);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    if (!(err instanceof ConfigError)) {
+      console.error(USAGE);
+    }
+    process.exit(EXIT_USAGE);
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  prepareNetwork(options)
+    .then(async () => {
+      if (!options.command) {
+        await main();
+      } else {
+        process.exit(await runCommand(options));
+      }
+    })
+    .catch((err) => {
+      console.error(err);
+      process.exit(EXIT_FAILURE);
+    });
+}
+
+// Only run when started directly, so the flows can be imported by tests
+if (require.main === module) {
+  start();
+}
@@ -0,0 +1,164 @@
+import {
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { BorshInstructionCoder } from "@coral-xyz/anchor";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PUMP_FUN_PROGRAM } from "./constants";
+import { JOURNAL_FILE, setJournalFile } from "./journal";
+import {
+  FAKE_AMM_PROGRAM,
+  FakeLedger,
+  ProcessedTransactionType,
+} from "./ledger";
+import { PUMP_FUN_IDL } from "./pumpFunIdl";
+import {
+  connection,
+  getCoinDataSource,
+  setCoinDataSource,
+  setConnection,
+  setPaperTrading,
+} from "./utils";
+
+const coder = new BorshInstructionCoder(PUMP_FUN_IDL);
+
+function formatSol(lamports: number | bigint) {
+  return `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(9)} SOL`;
+}
+
+// Describe one instruction of a paper transaction in a single line
+function describeInstruction(instruction: TransactionInstruction) {
+  const programId = instruction.programId.toBase58();
+  const keys = instruction.keys.map((key) => key.pubkey.toBase58());
+  const data = instruction.data;
+
+  if (programId === ComputeBudgetProgram.programId.toBase58()) {
+    if (data[0] === 2) {
+      return `ComputeBudget.setComputeUnitLimit ${data.readUInt32LE(1)} units`;
+    }
+    if (data[0] === 3) {
+      return `ComputeBudget.setComputeUnitPrice ${data.readBigUInt64LE(
+        1
+      )} microLamports`;
+    }
+  }
+  if (
+    programId === SystemProgram.programId.toBase58() &&
+    data.readUInt32LE(0) === 2
+  ) {
+    return `System.transfer ${formatSol(data.readBigUInt64LE(4))} ${
+      keys[0]
+    } -> ${keys[1]}`;
+  }
+  if (programId === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+    return `AssociatedToken.create${
+      data[0] === 1 ? "Idempotent" : ""
+    } ${keys[1]} for ${keys[2]}`;
+  }
+  if (programId === TOKEN_PROGRAM_ID.toBase58()) {
+    if (data[0] === 3) {
+      return `Token.transfer ${data.readBigUInt64LE(1)} units ${keys[0]} -> ${
+        keys[1]
+      }`;
+    }
+    if (data[0] === 8) {
+      return `Token.burn ${data.readBigUInt64LE(1)} units from ${keys[0]}`;
+    }
+    if (data[0] === 9) {
+      return `Token.closeAccount ${keys[0]} -> ${keys[1]}`;
+    }
+  }
+  if (programId === PUMP_FUN_PROGRAM) {
+    const decoded = coder.decode(Buffer.from(data));
+    if (decoded) {
+      const args = Object.entries(decoded.data as Record<string, any>)
+        .map(([name, value]) => `${name}=${value.toString()}`)
+        .join(" ");
+      return `PumpFun.${decoded.name} ${args}`;
+    }
+  }
+  if (programId === FAKE_AMM_PROGRAM) {
+    return `FakeAmm.sell tokenIn=${data.readBigUInt64LE(
+      0
+    )} minSolOutput=${data.readBigUInt64LE(8)}`;
+  }
+  return `${programId} (${data.length} bytes)`;
+}
+
+// Print what a paper transaction did: its instructions, fee, outcome and balance changes
+function printTransaction(processed: ProcessedTransactionType) {
+  const message = TransactionMessage.decompile(processed.transaction.message);
+  const lines = [`[dry run] Transaction ${processed.signature}`];
+
+  message.instructions.forEach((instruction, index) => {
+    lines.push(`  #${index} ${describeInstruction(instruction)}`);
+  });
+  lines.push(`  fee ${formatSol(processed.fee)}`);
+  lines.push(
+    `  status ${processed.err ? `failed ${JSON.stringify(processed.err)}` : "ok"}`
+  );
+
+  processed.accountKeys.forEach((key, index) => {
+    const change = processed.postBalances[index] - processed.preBalances[index];
+    if (change !== 0) {
+      lines.push(`  ${key} ${change > 0 ? "+" : ""}${formatSol(change)}`);
+    }
+  });
+  for (const post of processed.postTokenBalances) {
+    const pre = processed.preTokenBalances.find(
+      (balance) => balance.accountIndex === post.accountIndex
+    );
+    const change =
+      BigInt(post.uiTokenAmount.amount) -
+      BigInt(pre?.uiTokenAmount.amount ?? 0);
+    if (change !== BigInt(0)) {
+      lines.push(
+        `  ${processed.accountKeys[post.accountIndex]} (owner ${post.owner}) ${
+          change > BigInt(0) ? "+" : ""
+        }${change} token units`
+      );
+    }
+  }
+
+  console.log(lines.join("\n"));
+}
+
+// Fork the configured chain into memory so every send, trade and read after this
+// runs against paper state, with journal and paused state kept off the real files
+export function startPaperTrading() {
+  const ledger = FakeLedger.fork(connection);
+  ledger.onTransaction = printTransaction;
+
+  // Curves come from the fork so paper trades move the price, SOL price stays live
+  const { getSolPrice } = getCoinDataSource();
+  setConnection(ledger.asConnection());
+  setCoinDataSource({
+    getBondingCurve: (mint) => ledger.fetchBondingCurve(mint),
+    getSolPrice,
+  });
+
+  // Resume still sees interrupted runs, but paper steps never reach the real journal
+  const journalFile = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "pump-dry-run-")),
+    "journal.jsonl"
+  );
+  if (fs.existsSync(JOURNAL_FILE)) {
+    fs.copyFileSync(JOURNAL_FILE, journalFile);
+  }
+  setJournalFile(journalFile);
+
+  setPaperTrading(true);
+  console.log(
+    "Dry run: transactions are simulated on a fork of the chain, nothing is broadcast."
+  );
+  return ledger;
+}
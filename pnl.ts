@@ -0,0 +1,540 @@
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TokenBalance,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import { PUMP_FUN_PROGRAM } from "./constants";
+import { findDexPool, getDexProgramIds } from "./dex";
+import { RunJournal } from "./journal";
+import {
+  WalletInfoType,
+  connection,
+  getCoinDataSource,
+  getSolPrice,
+} from "./utils";
+
+// Profit and loss of one wallet over every journaled run, amounts in SOL
+export type WalletPnlType = {
+  publicKey: string;
+  label?: string;
+  solIn: number; // received by plain transfers, e.g. funding
+  solOut: number; // sent by plain transfers, e.g. consolidation and sweeps
+  solSpent: number; // paid for buys, pump.fun fee included
+  solReceived: number; // sell proceeds after the pump.fun fee
+  tokensBought: number;
+  tokensSold: number;
+  tokensHeld: number; // bought or received and not sold or sent yet
+  fees: number; // transaction fees, priority fees included
+  rent: number; // token account rent paid, minus rent recovered on close
+  realized: number;
+  unrealized: number; // held tokens at the current curve price minus their cost
+  realizedUsd?: number;
+  unrealizedUsd?: number;
+};
+
+// Profit and loss of one run, amounts in SOL
+export type RunPnlType = {
+  runId: string;
+  kind: string;
+  campaign: string;
+  time: string;
+  ownerSent: number; // SOL sent out by the main wallet
+  ownerReceived: number; // SOL swept or returned to the main wallet
+  solSpent: number;
+  solReceived: number;
+  fees: number;
+  rent: number;
+  realized: number;
+  realizedUsd?: number;
+};
+
+export type PnlReportType = {
+  solPrice?: number; // USD, missing when the price could not be fetched
+  runs: RunPnlType[];
+  wallets: WalletPnlType[];
+  totals: {
+    realized: number;
+    unrealized: number;
+    realizedUsd?: number;
+    unrealizedUsd?: number;
+  };
+};
+
+// Tokens of one wallet in one mint and the SOL they cost
+type PositionType = {
+  tokens: number; // raw units
+  cost: number; // lamports
+  decimals: number;
+};
+
+// Tokens one wallet holds and the lamports it paid for them
+export type CostBasisType = {
+  publicKey: string;
+  tokens: number; // raw units
+  cost: number; // lamports
+};
+
+// What a CSV cell can hold, missing figures are left empty
+type CsvValueType = string | number | undefined;
+
+type ConfirmedStepType = {
+  run: RunPnlType;
+  signature: string;
+};
+
+function toSol(lamports: number) {
+  return lamports / LAMPORTS_PER_SOL;
+}
+
+// Round SOL figures to lamports and USD figures to cents, dropping float noise
+function roundFigures<T extends Record<string, unknown>>(row: T): T {
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === "number") {
+      const scale = key.endsWith("Usd") ? 100 : LAMPORTS_PER_SOL;
+      (row as Record<string, unknown>)[key] = Math.round(value * scale) / scale;
+    }
+  }
+  return row;
+}
+
+function emptyWallet(publicKey: string, label?: string): WalletPnlType {
+  return {
+    publicKey,
+    label,
+    solIn: 0,
+    solOut: 0,
+    solSpent: 0,
+    solReceived: 0,
+    tokensBought: 0,
+    tokensSold: 0,
+    tokensHeld: 0,
+    fees: 0,
+    rent: 0,
+    realized: 0,
+    unrealized: 0,
+  };
+}
+
+// Sum raw token amounts per owner and mint from balances of a transaction meta
+function sumTokenBalances(balances: TokenBalance[] | null | undefined) {
+  const sums = new Map<string, { amount: number; decimals: number }>();
+  for (const balance of balances ?? []) {
+    const key = `${balance.owner}:${balance.mint}`;
+    const sum = sums.get(key) ?? {
+      amount: 0,
+      decimals: balance.uiTokenAmount.decimals,
+    };
+    sum.amount += Number(balance.uiTokenAmount.amount);
+    sums.set(key, sum);
+  }
+  return sums;
+}
+
+// Builds the report by replaying confirmed transactions in slot order
+class PnlLedger {
+  wallets = new Map<string, WalletPnlType>();
+  positions = new Map<string, PositionType>(); // by `${wallet}:${mint}`
+
+  constructor(
+    private readonly owner: string,
+    private readonly labels: Map<string, string | undefined>
+  ) {}
+
+  wallet(publicKey: string) {
+    let wallet = this.wallets.get(publicKey);
+    if (!wallet) {
+      wallet = emptyWallet(publicKey, this.labels.get(publicKey));
+      this.wallets.set(publicKey, wallet);
+    }
+    return wallet;
+  }
+
+  position(key: string, decimals: number) {
+    let position = this.positions.get(key);
+    if (!position) {
+      position = { tokens: 0, cost: 0, decimals };
+      this.positions.set(key, position);
+    }
+    return position;
+  }
+
+  isTracked(publicKey: string) {
+    return publicKey === this.owner || this.labels.has(publicKey);
+  }
+
+  // Attribute the balance changes of one confirmed transaction to wallets and [run]
+  apply(run: RunPnlType, transaction: VersionedTransactionResponse) {
+    const { meta } = transaction;
+    if (!meta) {
+      return;
+    }
+    const accountKeys = transaction.transaction.message
+      .getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses })
+      .keySegments()
+      .flat()
+      .map((key) => key.toBase58());
+    const payer = accountKeys[0];
+    const solDelta = accountKeys.map(
+      (_key, index) => meta.postBalances[index] - meta.preBalances[index]
+    );
+
+    // Token accounts opened or closed by this transaction hold rent, not value
+    const preAccounts = new Set<number>(
+      (meta.preTokenBalances ?? []).map((balance) => balance.accountIndex)
+    );
+    const postAccounts = new Set<number>(
+      (meta.postTokenBalances ?? []).map((balance) => balance.accountIndex)
+    );
+    let rent = 0;
+    postAccounts.forEach((index) => {
+      if (!preAccounts.has(index) && meta.preBalances[index] === 0) {
+        rent += meta.postBalances[index];
+        solDelta[index] = 0;
+      }
+    });
+    preAccounts.forEach((index) => {
+      if (!postAccounts.has(index) && meta.postBalances[index] === 0) {
+        rent -= meta.preBalances[index];
+        solDelta[index] = 0;
+      }
+    });
+
+    const payerWallet = this.wallet(payer);
+    payerWallet.fees += toSol(meta.fee);
+    payerWallet.rent += toSol(rent);
+    run.fees += toSol(meta.fee);
+    run.rent += toSol(rent);
+
+    // Net SOL of the payer without what the network and the token accounts took
+    const payerSol = solDelta[0] + meta.fee + rent;
+
+    const pre = sumTokenBalances(meta.preTokenBalances);
+    const post = sumTokenBalances(meta.postTokenBalances);
+    const tokenDeltas = new Map<string, { amount: number; decimals: number }>();
+    for (const key of new Set([...pre.keys(), ...post.keys()])) {
+      const amount = (post.get(key)?.amount ?? 0) - (pre.get(key)?.amount ?? 0);
+      if (amount !== 0 && this.isTracked(key.split(":")[0])) {
+        const decimals = (post.get(key) ?? pre.get(key))!.decimals;
+        tokenDeltas.set(key, { amount, decimals });
+      }
+    }
+
+    // Batched transfers can move tokens and SOL of several wallets in one transaction.
+    // Trades go through the curve or, after migration, a registered AMM.
+    const tradePrograms = [PUMP_FUN_PROGRAM, ...getDexProgramIds()];
+    if (accountKeys.some((key) => tradePrograms.includes(key))) {
+      this.applyTrade(run, payerWallet, payerSol, tokenDeltas);
+    } else {
+      if (tokenDeltas.size > 0) {
+        this.applyTokenTransfer(run, payerWallet, tokenDeltas);
+      }
+      this.applySolTransfer(run, accountKeys, solDelta, payerSol);
+    }
+  }
+
+  private applyTrade(
+    run: RunPnlType,
+    payerWallet: WalletPnlType,
+    payerSol: number,
+    tokenDeltas: Map<string, { amount: number; decimals: number }>
+  ) {
+    for (const [key, delta] of tokenDeltas) {
+      if (!key.startsWith(`${payerWallet.publicKey}:`)) {
+        continue;
+      }
+      const position = this.position(key, delta.decimals);
+      const units = Math.pow(10, delta.decimals);
+
+      if (delta.amount > 0) {
+        // Buy: everything the payer lost besides fees and rent went into the curve
+        position.tokens += delta.amount;
+        position.cost += -payerSol;
+        payerWallet.solSpent += toSol(-payerSol);
+        payerWallet.tokensBought += delta.amount / units;
+        run.solSpent += toSol(-payerSol);
+      } else {
+        // Sell: realize the proceeds against the average cost of the tokens sold
+        const sold = -delta.amount;
+        const cost =
+          position.tokens > 0
+            ? (position.cost * Math.min(sold, position.tokens)) /
+              position.tokens
+            : 0;
+        position.tokens = Math.max(position.tokens - sold, 0);
+        position.cost -= cost;
+        payerWallet.solReceived += toSol(payerSol);
+        payerWallet.tokensSold += sold / units;
+        payerWallet.realized += toSol(payerSol - cost);
+        run.solReceived += toSol(payerSol);
+        run.realized += toSol(payerSol - cost);
+      }
+    }
+  }
+
+  // Tokens moved between wallets carry their average cost with them, burned tokens lose it
+  private applyTokenTransfer(
+    run: RunPnlType,
+    payerWallet: WalletPnlType,
+    tokenDeltas: Map<string, { amount: number; decimals: number }>
+  ) {
+    let movedCost = 0;
+    for (const [key, delta] of tokenDeltas) {
+      if (delta.amount >= 0) {
+        continue;
+      }
+      const position = this.position(key, delta.decimals);
+      const sent = Math.min(-delta.amount, position.tokens);
+      const cost =
+        position.tokens > 0 ? (position.cost * sent) / position.tokens : 0;
+      position.tokens -= sent;
+      position.cost -= cost;
+      movedCost += cost;
+    }
+
+    const receivers = Array.from(tokenDeltas).filter(
+      ([, delta]) => delta.amount > 0
+    );
+    const received = receivers.reduce(
+      (sum, [, delta]) => sum + delta.amount,
+      0
+    );
+    if (received === 0) {
+      payerWallet.realized -= toSol(movedCost);
+      run.realized -= toSol(movedCost);
+    }
+    for (const [key, delta] of receivers) {
+      const position = this.position(key, delta.decimals);
+      position.tokens += delta.amount;
+      position.cost += (movedCost * delta.amount) / received;
+    }
+  }
+
+  private applySolTransfer(
+    run: RunPnlType,
+    accountKeys: string[],
+    solDelta: number[],
+    payerSol: number
+  ) {
+    const payer = accountKeys[0];
+    accountKeys.forEach((key, index) => {
+      if (index === 0 || solDelta[index] === 0 || !this.isTracked(key)) {
+        return;
+      }
+      if (solDelta[index] < 0) {
+        // A co-signer of a batch paid by another wallet
+        this.wallet(key).solOut += toSol(-solDelta[index]);
+        return;
+      }
+      this.wallet(key).solIn += toSol(solDelta[index]);
+      if (payer === this.owner) {
+        run.ownerSent += toSol(solDelta[index]);
+      }
+      if (key === this.owner) {
+        run.ownerReceived += toSol(solDelta[index]);
+      }
+    });
+    if (payerSol < 0) {
+      this.wallet(payer).solOut += toSol(-payerSol);
+    }
+  }
+}
+
+// Replay the confirmed transactions of every journaled run of [campaign] in the order they landed
+async function replayJournal(
+  owner: PublicKey,
+  wallets: WalletInfoType[],
+  campaign?: string
+) {
+  const ledger = new PnlLedger(
+    owner.toBase58(),
+    new Map(wallets.map((wallet) => [wallet.publicKey, wallet.label]))
+  );
+  ledger.wallet(owner.toBase58()).label = "main";
+
+  const runs: RunPnlType[] = [];
+  const steps: ConfirmedStepType[] = [];
+  for (const journal of RunJournal.findAll(campaign)) {
+    const run: RunPnlType = {
+      runId: journal.run.runId,
+      kind: journal.run.kind,
+      campaign: journal.run.campaign,
+      time: journal.run.time,
+      ownerSent: 0,
+      ownerReceived: 0,
+      solSpent: 0,
+      solReceived: 0,
+      fees: 0,
+      rent: 0,
+      realized: 0,
+    };
+    runs.push(run);
+    for (const step of journal.getConfirmedSteps()) {
+      // Steps sent in one batch share their transaction, which is applied once
+      if (!steps.some((added) => added.signature === step.signature)) {
+        steps.push({ run, signature: step.signature! });
+      }
+    }
+  }
+
+  // Costs carry across runs, so transactions are replayed in the order they landed
+  const transactions = [];
+  for (const step of steps) {
+    const transaction = await connection.getTransaction(step.signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!transaction?.meta || transaction.meta.err) {
+      console.warn(`No confirmed transaction meta for ${step.signature}.`);
+      continue;
+    }
+    transactions.push({ ...step, transaction });
+  }
+  transactions.sort((a, b) => a.transaction.slot - b.transaction.slot);
+  for (const { run, transaction } of transactions) {
+    ledger.apply(run, transaction);
+  }
+
+  return { ledger, runs };
+}
+
+// Get the tokens of [mint] each wallet still holds from the journaled runs and what they cost
+export async function getCostBasis(
+  owner: PublicKey,
+  wallets: WalletInfoType[],
+  mint: string,
+  campaign?: string
+): Promise<CostBasisType[]> {
+  const { ledger } = await replayJournal(owner, wallets, campaign);
+  return Array.from(ledger.positions)
+    .filter(
+      ([key, position]) => key.endsWith(`:${mint}`) && position.tokens > 0
+    )
+    .map(([key, position]) => ({
+      publicKey: key.split(":")[0],
+      tokens: position.tokens,
+      cost: position.cost,
+    }));
+}
+
+// Lamports per raw unit of [mint] where it trades now, 0 when the curve completed and
+// no registered AMM has a pool
+async function getSpotPrice(mint: string) {
+  const curve = await getCoinDataSource().getBondingCurve(mint);
+  if (!curve.complete) {
+    return (
+      Number(curve.virtualSolReserves) / Number(curve.virtualTokenReserves)
+    );
+  }
+  const found = await findDexPool(new PublicKey(mint));
+  if (!found) {
+    console.warn(`No pool of ${mint} found, its tokens are valued at 0.`);
+    return 0;
+  }
+  return Number(found.pool.solReserves) / Number(found.pool.tokenReserves);
+}
+
+// Replay the confirmed transactions of every journaled run of [campaign] into a PnL report
+export async function buildPnlReport(
+  owner: PublicKey,
+  wallets: WalletInfoType[],
+  campaign?: string
+): Promise<PnlReportType> {
+  const { ledger, runs } = await replayJournal(owner, wallets, campaign);
+
+  // Rent counts as a cost until the account is closed and the rent comes back
+  for (const wallet of ledger.wallets.values()) {
+    wallet.realized -= wallet.fees + wallet.rent;
+  }
+  for (const run of runs) {
+    run.realized -= run.fees + run.rent;
+  }
+
+  // Value what is still held at the current spot price of its curve, or of its pool
+  // once the curve completed
+  const prices = new Map<string, number>(); // lamports per raw token unit
+  for (const [key, position] of ledger.positions) {
+    if (position.tokens <= 0) {
+      continue;
+    }
+    const [publicKey, mint] = key.split(":");
+    if (!prices.has(mint)) {
+      try {
+        prices.set(mint, await getSpotPrice(mint));
+      } catch (err) {
+        console.error(`Error in getting the spot price of ${mint}: `, err);
+        prices.set(mint, 0);
+      }
+    }
+    const wallet = ledger.wallet(publicKey);
+    wallet.tokensHeld += position.tokens / Math.pow(10, position.decimals);
+    wallet.unrealized += toSol(
+      position.tokens * prices.get(mint)! - position.cost
+    );
+  }
+
+  let solPrice: number | undefined;
+  try {
+    solPrice = await getSolPrice();
+  } catch {
+    console.warn("SOL price unavailable, USD figures are left out.");
+  }
+
+  const walletRows = Array.from(ledger.wallets.values());
+  const totals: PnlReportType["totals"] = {
+    realized: walletRows.reduce((sum, wallet) => sum + wallet.realized, 0),
+    unrealized: walletRows.reduce((sum, wallet) => sum + wallet.unrealized, 0),
+  };
+  if (solPrice !== undefined) {
+    for (const wallet of walletRows) {
+      wallet.realizedUsd = wallet.realized * solPrice;
+      wallet.unrealizedUsd = wallet.unrealized * solPrice;
+    }
+    for (const run of runs) {
+      run.realizedUsd = run.realized * solPrice;
+    }
+    totals.realizedUsd = totals.realized * solPrice;
+    totals.unrealizedUsd = totals.unrealized * solPrice;
+  }
+
+  return {
+    solPrice,
+    runs: runs.map(roundFigures),
+    wallets: walletRows.map(roundFigures),
+    totals: roundFigures(totals),
+  };
+}
+
+function toCsvValue(value: CsvValueType) {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Flatten [report] into one CSV table, the scope column tells runs, wallets and totals apart
+export function formatPnlCsv(report: PnlReportType) {
+  const rows: Record<string, CsvValueType>[] = [
+    ...report.runs.map((run) => ({ scope: "run", ...run })),
+    ...report.wallets.map((wallet) => ({ scope: "wallet", ...wallet })),
+    { scope: "total", ...report.totals },
+  ];
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+  return [
+    columns.join(","),
+    ...rows.map((row) =>
+      columns.map((column) => toCsvValue(row[column])).join(",")
+    ),
+  ].join("\n");
+}
+
+// Write [report] to [file], as CSV when it ends in .csv and as JSON otherwise
+export function exportPnlReport(report: PnlReportType, file: string) {
+  const content =
+    path.extname(file).toLowerCase() === ".csv"
+      ? formatPnlCsv(report)
+      : JSON.stringify(report, null, 2);
+  fs.writeFileSync(file, content + "\n");
+  console.log(`PnL report written to ${file}`);
+}
@@ -0,0 +1,179 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { FeeModeType, getConfig } from "./config";
+
+export type PriorityFeeType = {
+  mode: FeeModeType;
+  microLamports: number; // compute unit price
+  units: number; // compute unit limit
+  priorityLamports: number; // priority fee charged for the unit limit
+  baseLamports: number; // signature fee
+};
+
+export type SimulationType = {
+  err: TransactionError | string | null;
+  logs: string[];
+  programIds: PublicKey[]; // program of every simulated instruction, in order
+  unitsConsumed?: number;
+  payerLamports?: number; // payer balance afterwards, when the RPC returns it
+};
+
+const LAMPORTS_PER_SIGNATURE = 5000;
+const MAX_UNIT_LIMIT = 1_400_000; // highest compute unit limit a transaction can set
+const MAX_LOCKED_ACCOUNTS = 128; // getRecentPrioritizationFees limit
+
+// Collect the writable accounts of [instructions], the ones that compete for block space
+function getWritableAccounts(instructions: TransactionInstruction[]) {
+  const accounts = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  return Array.from(accounts.values()).slice(0, MAX_LOCKED_ACCOUNTS);
+}
+
+// Get the [percentile] of prices paid in recent slots for locking [accounts]
+async function getRecentFeePercentile(
+  connection: Connection,
+  accounts: PublicKey[],
+  percentile: number
+) {
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: accounts,
+  });
+  const fees = recentFees
+    .map((fee) => fee.prioritizationFee)
+    .sort((a, b) => a - b);
+
+  if (fees.length === 0) {
+    return 0;
+  }
+  const index = Math.ceil((percentile / 100) * fees.length) - 1;
+  return fees[Math.min(Math.max(index, 0), fees.length - 1)];
+}
+
+// Get the compute unit price for [instructions] on try number [attempt] (0 = first send)
+export async function getPriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  attempt = 0
+) {
+  const config = getConfig();
+  const mode = config.feeMode;
+
+  if (mode === "fixed") {
+    return config.priorityFee;
+  }
+
+  let estimate = config.priorityFee;
+  try {
+    estimate = Math.max(
+      estimate,
+      await getRecentFeePercentile(
+        connection,
+        getWritableAccounts(instructions),
+        config.feePercentile
+      )
+    );
+  } catch (err) {
+    console.error("Error in getting recent prioritization fees: ", err);
+  }
+
+  if (mode === "escalating") {
+    // Every rebuild after an expired blockhash pays more, up to the cap
+    estimate = estimate * Math.pow(config.feeEscalation, attempt);
+  }
+  return Math.min(Math.ceil(estimate), config.unitPrice);
+}
+
+// Simulate [instructions] under the highest unit limit and without a price. Its units size the
+// compute budget and its result tells the sender whether the transaction can land, so every send
+// simulates once.
+export async function simulateInstructions(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<SimulationType> {
+  const simulated = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_UNIT_LIMIT }),
+    ...instructions,
+  ];
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      // Any blockhash does, the RPC replaces it
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: simulated,
+    }).compileToV0Message(lookupTables)
+  );
+
+  const { value } = await connection.simulateTransaction(transaction, {
+    commitment: "confirmed",
+    replaceRecentBlockhash: true,
+    sigVerify: false,
+    accounts: { encoding: "base64", addresses: [payer.toBase58()] },
+  });
+  return {
+    err: value.err,
+    logs: value.logs ?? [],
+    programIds: simulated.map((instruction) => instruction.programId),
+    unitsConsumed: value.unitsConsumed || undefined,
+    payerLamports: value.accounts?.[0]?.lamports,
+  };
+}
+
+// Prepend compute budget instructions to [instructions] following the configured fee mode,
+// with a limit of [unitsConsumed] plus 50 % or the configured budget when they are unknown
+export async function addPriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  unitsConsumed: number | undefined,
+  attempt = 0
+): Promise<PriorityFeeType> {
+  const config = getConfig();
+  const microLamports = await getPriorityFee(connection, instructions, attempt);
+  const units = unitsConsumed
+    ? Math.ceil(unitsConsumed * 1.5)
+    : config.unitBudget;
+
+  instructions.unshift(
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
+  );
+
+  return {
+    mode: config.feeMode,
+    microLamports,
+    units,
+    priorityLamports: Math.ceil((microLamports * units) / 1_000_000),
+    baseLamports: LAMPORTS_PER_SIGNATURE,
+  };
+}
+
+// Print the fee paid by transaction [signature], [paid] lamports as charged on chain
+export function logPriorityFee(
+  signature: string,
+  fee: PriorityFeeType,
+  paid = fee.baseLamports + fee.priorityLamports
+) {
+  console.log(
+    `Fee paid by ${signature}: ${paid / LAMPORTS_PER_SOL} SOL (priority ${
+      fee.priorityLamports
+    } lamports, ${fee.microLamports} microLamports/CU x ${fee.units} CU, ${
+      fee.mode
+    } mode)`
+  );
+}
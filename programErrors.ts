@@ -0,0 +1,156 @@
+import { PublicKey, TransactionError } from "@solana/web3.js";
+import { PUMP_FUN_PROGRAM } from "./constants";
+import { PUMP_FUN_IDL } from "./pumpFunIdl";
+
+export type ProgramErrorKindType =
+  "SlippageExceeded" | "CurveComplete" | "InsufficientFunds" | "Unknown";
+
+// A transaction a program rejected in simulation, with a readable reason
+export class ProgramError extends Error {
+  constructor(
+    public readonly kind: ProgramErrorKindType,
+    message: string,
+    public readonly code?: number,
+    public readonly logs: string[] = []
+  ) {
+    super(message);
+    this.name = kind === "Unknown" ? "ProgramError" : `${kind}Error`;
+  }
+}
+
+export class SlippageExceededError extends ProgramError {
+  constructor(message: string, code?: number, logs?: string[]) {
+    super("SlippageExceeded", message, code, logs);
+  }
+}
+
+export class CurveCompleteError extends ProgramError {
+  constructor(message: string, code?: number, logs?: string[]) {
+    super("CurveComplete", message, code, logs);
+  }
+}
+
+export class InsufficientFundsError extends ProgramError {
+  constructor(message: string, code?: number, logs?: string[]) {
+    super("InsufficientFunds", message, code, logs);
+  }
+}
+
+// pump.fun error names grouped by the typed error they map to
+const SLIPPAGE_ERRORS = ["TooMuchSolRequired", "TooLittleSolReceived"];
+const CURVE_COMPLETE_ERRORS = ["BondingCurveComplete"];
+
+const PUMP_FUN_PROGRAM_ID = new PublicKey(PUMP_FUN_PROGRAM);
+
+// Log lines of the system and token programs when a balance is too low
+const INSUFFICIENT_FUNDS_LOGS = [
+  /insufficient lamports/i,
+  /insufficient funds/i,
+  /custom program error: 0x1$/,
+];
+
+// Transaction errors that come from the wallet's balances rather than a program
+const INSUFFICIENT_FUNDS_ERRORS = [
+  "InsufficientFundsForFee",
+  "InsufficientFundsForRent",
+  "AccountNotFound",
+];
+
+// Get the failing instruction and its custom error code, e.g. {InstructionError: [1, {Custom: 6002}]}
+function getCustomError(err: TransactionError | string) {
+  if (typeof err !== "object" || err === null || !("InstructionError" in err)) {
+    return undefined;
+  }
+  const instructionError: unknown = err.InstructionError;
+  if (!Array.isArray(instructionError)) {
+    return undefined;
+  }
+
+  const [index, error]: unknown[] = instructionError;
+  if (
+    typeof index !== "number" ||
+    typeof error !== "object" ||
+    error === null ||
+    !("Custom" in error) ||
+    typeof error.Custom !== "number"
+  ) {
+    return undefined;
+  }
+  return { index, code: error.Custom };
+}
+
+// Map a simulation error and its program logs to a typed error, [programIds] being the
+// program of every instruction in the transaction. Only custom program errors and a lack of
+// funds fail the same way on every attempt, anything else (e.g. BlockhashNotFound) is left
+// undefined for the caller to retry.
+export function decodeProgramError(
+  err: TransactionError | string,
+  logs: string[],
+  programIds: PublicKey[]
+): ProgramError | undefined {
+  if (typeof err === "string" && INSUFFICIENT_FUNDS_ERRORS.includes(err)) {
+    return new InsufficientFundsError(
+      "Wallet does not hold enough SOL or tokens for this transaction.",
+      undefined,
+      logs
+    );
+  }
+
+  const custom = getCustomError(err);
+  if (!custom) {
+    return undefined;
+  }
+  const { code } = custom;
+
+  // Anchor logs the error name, pump.fun errors also come back as codes 6000+. Every Anchor
+  // program reuses those codes, so they only mean a pump.fun error when pump.fun failed.
+  const loggedName = logs
+    .map((line) => /Error Code: (\w+)/.exec(line)?.[1])
+    .find((name) => name !== undefined);
+  const idlError = programIds[custom.index]?.equals(PUMP_FUN_PROGRAM_ID)
+    ? PUMP_FUN_IDL.errors?.find(
+        (error) => error.code === code || error.name === loggedName
+      )
+    : undefined;
+
+  if (idlError && SLIPPAGE_ERRORS.includes(idlError.name)) {
+    return new SlippageExceededError(
+      `Price moved beyond the allowed slippage (${idlError.name}).`,
+      idlError.code,
+      logs
+    );
+  }
+  if (idlError && CURVE_COMPLETE_ERRORS.includes(idlError.name)) {
+    return new CurveCompleteError(
+      "Bonding curve is complete, token no longer trades on pump.fun.",
+      idlError.code,
+      logs
+    );
+  }
+  if (
+    logs.some((line) =>
+      INSUFFICIENT_FUNDS_LOGS.some((pattern) => pattern.test(line))
+    )
+  ) {
+    return new InsufficientFundsError(
+      "Wallet does not hold enough SOL or tokens for this transaction.",
+      code,
+      logs
+    );
+  }
+  if (idlError) {
+    return new ProgramError(
+      "Unknown",
+      idlError.msg ?? idlError.name,
+      code,
+      logs
+    );
+  }
+
+  return new ProgramError(
+    "Unknown",
+    `Simulation failed: ${JSON.stringify(err)}`,
+    code,
+    logs
+  );
+}
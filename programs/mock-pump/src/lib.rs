@@ -0,0 +1,270 @@
+//! Mock of the pump.fun bonding curve program for local validator runs.
+//!
+//! It accepts the same buy and sell instructions (discriminators, arguments and
+//! account order) as the real program, reads and writes the same BondingCurve
+//! account layout and logs the same TradeEvent, so the bot runs against it
+//! unchanged. Curves are not created on chain: the local validator preloads them.
+
+use solana_program::{
+    account_info::AccountInfo, clock::Clock, entrypoint, entrypoint::ProgramResult,
+    log::sol_log_data, msg, program::invoke, program::invoke_signed, program_error::ProgramError,
+    pubkey::Pubkey, system_instruction, sysvar::Sysvar,
+};
+
+entrypoint!(process_instruction);
+
+const BUY: [u8; 8] = [102, 6, 61, 18, 1, 218, 235, 234];
+const SELL: [u8; 8] = [51, 230, 133, 164, 1, 127, 131, 173];
+const TRADE_EVENT: [u8; 8] = [189, 219, 127, 211, 78, 230, 97, 238];
+
+const BONDING_CURVE_DISCRIMINATOR: u64 = 6966180631402821399;
+const BONDING_CURVE_SEED: &[u8] = b"bonding-curve";
+const FEE_BASIS_POINTS: u128 = 100;
+
+// Account order shared by buy and sell
+const FEE_RECIPIENT: usize = 1;
+const MINT: usize = 2;
+const BONDING_CURVE: usize = 3;
+const ASSOCIATED_BONDING_CURVE: usize = 4;
+const ASSOCIATED_USER: usize = 5;
+const USER: usize = 6;
+
+struct Curve {
+    virtual_token_reserves: u64,
+    virtual_sol_reserves: u64,
+    real_token_reserves: u64,
+    real_sol_reserves: u64,
+    token_total_supply: u64,
+    complete: bool,
+}
+
+fn read_u64(data: &[u8], offset: usize) -> u64 {
+    u64::from_le_bytes(data[offset..offset + 8].try_into().unwrap())
+}
+
+impl Curve {
+    fn load(data: &[u8]) -> Result<Self, ProgramError> {
+        if data.len() < 49 || read_u64(data, 0) != BONDING_CURVE_DISCRIMINATOR {
+            return Err(ProgramError::InvalidAccountData);
+        }
+        Ok(Curve {
+            virtual_token_reserves: read_u64(data, 8),
+            virtual_sol_reserves: read_u64(data, 16),
+            real_token_reserves: read_u64(data, 24),
+            real_sol_reserves: read_u64(data, 32),
+            token_total_supply: read_u64(data, 40),
+            complete: data[48] != 0,
+        })
+    }
+
+    fn store(&self, data: &mut [u8]) {
+        data[8..16].copy_from_slice(&self.virtual_token_reserves.to_le_bytes());
+        data[16..24].copy_from_slice(&self.virtual_sol_reserves.to_le_bytes());
+        data[24..32].copy_from_slice(&self.real_token_reserves.to_le_bytes());
+        data[32..40].copy_from_slice(&self.real_sol_reserves.to_le_bytes());
+        data[40..48].copy_from_slice(&self.token_total_supply.to_le_bytes());
+        data[48] = self.complete as u8;
+    }
+}
+
+// Fail with the pump.fun error code, logged the way Anchor logs it
+fn pump_error(code: u32, name: &str) -> ProgramError {
+    msg!(
+        "AnchorError occurred. Error Code: {}. Error Number: {}.",
+        name,
+        code
+    );
+    ProgramError::Custom(code)
+}
+
+fn fee(amount: u128) -> u128 {
+    amount * FEE_BASIS_POINTS / 10_000
+}
+
+// Log the trade the way Anchor's emit! does, as Borsh data behind the event discriminator,
+// so trade streams decode it like a pump.fun TradeEvent
+fn emit_trade_event(
+    mint: &Pubkey,
+    sol_amount: u64,
+    token_amount: u64,
+    is_buy: bool,
+    user: &Pubkey,
+    curve: &Curve,
+) -> ProgramResult {
+    let mut event = Vec::with_capacity(113);
+    event.extend_from_slice(&TRADE_EVENT);
+    event.extend_from_slice(mint.as_ref());
+    event.extend_from_slice(&sol_amount.to_le_bytes());
+    event.extend_from_slice(&token_amount.to_le_bytes());
+    event.push(is_buy as u8);
+    event.extend_from_slice(user.as_ref());
+    event.extend_from_slice(&Clock::get()?.unix_timestamp.to_le_bytes());
+    event.extend_from_slice(&curve.virtual_sol_reserves.to_le_bytes());
+    event.extend_from_slice(&curve.virtual_token_reserves.to_le_bytes());
+    sol_log_data(&[&event]);
+    Ok(())
+}
+
+pub fn process_instruction(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    data: &[u8],
+) -> ProgramResult {
+    if data.len() < 24 || accounts.len() < 9 {
+        return Err(ProgramError::InvalidInstructionData);
+    }
+    let discriminator: [u8; 8] = data[0..8].try_into().unwrap();
+    let amount = read_u64(data, 8);
+    let limit = read_u64(data, 16);
+
+    let mint = &accounts[MINT];
+    let bonding_curve = &accounts[BONDING_CURVE];
+    let (expected_curve, bump) =
+        Pubkey::find_program_address(&[BONDING_CURVE_SEED, mint.key.as_ref()], program_id);
+    if *bonding_curve.key != expected_curve || bonding_curve.owner != program_id {
+        return Err(pump_error(6004, "MintDoesNotMatchBondingCurve"));
+    }
+
+    let mut curve = Curve::load(&bonding_curve.try_borrow_data()?)?;
+    if curve.complete {
+        return Err(pump_error(6005, "BondingCurveComplete"));
+    }
+
+    let (sol_amount, is_buy) = match discriminator {
+        BUY => {
+            msg!("Instruction: Buy");
+            let sol_cost = buy(accounts, &mut curve, amount, limit, mint.key, bump)?;
+            (sol_cost, true)
+        }
+        SELL => {
+            msg!("Instruction: Sell");
+            (sell(accounts, &mut curve, amount, limit)?, false)
+        }
+        _ => return Err(ProgramError::InvalidInstructionData),
+    };
+
+    if curve.real_token_reserves == 0 {
+        curve.complete = true;
+    }
+    curve.store(&mut bonding_curve.try_borrow_mut_data()?);
+    emit_trade_event(
+        mint.key,
+        sol_amount,
+        amount,
+        is_buy,
+        accounts[USER].key,
+        &curve,
+    )
+}
+
+fn buy(
+    accounts: &[AccountInfo],
+    curve: &mut Curve,
+    amount: u64,
+    max_sol_cost: u64,
+    mint: &Pubkey,
+    bump: u8,
+) -> Result<u64, ProgramError> {
+    if amount > curve.real_token_reserves || amount >= curve.virtual_token_reserves {
+        return Err(pump_error(6002, "TooMuchSolRequired"));
+    }
+
+    let sol_cost = (amount as u128) * (curve.virtual_sol_reserves as u128)
+        / ((curve.virtual_token_reserves - amount) as u128)
+        + 1;
+    let fee = fee(sol_cost);
+    if sol_cost + fee > max_sol_cost as u128 {
+        return Err(pump_error(6002, "TooMuchSolRequired"));
+    }
+    let sol_cost = sol_cost as u64;
+
+    let user = &accounts[USER];
+    let bonding_curve = &accounts[BONDING_CURVE];
+    let fee_recipient = &accounts[FEE_RECIPIENT];
+    let system_program = &accounts[7];
+    let token_program = &accounts[8];
+
+    invoke(
+        &system_instruction::transfer(user.key, bonding_curve.key, sol_cost),
+        &[user.clone(), bonding_curve.clone(), system_program.clone()],
+    )?;
+    invoke(
+        &system_instruction::transfer(user.key, fee_recipient.key, fee as u64),
+        &[user.clone(), fee_recipient.clone(), system_program.clone()],
+    )?;
+
+    // The curve's token account is owned by the curve PDA, so the program signs for it
+    invoke_signed(
+        &spl_token::instruction::transfer(
+            token_program.key,
+            accounts[ASSOCIATED_BONDING_CURVE].key,
+            accounts[ASSOCIATED_USER].key,
+            bonding_curve.key,
+            &[],
+            amount,
+        )?,
+        &[
+            accounts[ASSOCIATED_BONDING_CURVE].clone(),
+            accounts[ASSOCIATED_USER].clone(),
+            bonding_curve.clone(),
+            token_program.clone(),
+        ],
+        &[&[BONDING_CURVE_SEED, mint.as_ref(), &[bump]]],
+    )?;
+
+    curve.virtual_sol_reserves += sol_cost;
+    curve.virtual_token_reserves -= amount;
+    curve.real_sol_reserves += sol_cost;
+    curve.real_token_reserves -= amount;
+    Ok(sol_cost)
+}
+
+fn sell(
+    accounts: &[AccountInfo],
+    curve: &mut Curve,
+    amount: u64,
+    min_sol_output: u64,
+) -> Result<u64, ProgramError> {
+    let gross = (amount as u128) * (curve.virtual_sol_reserves as u128)
+        / ((curve.virtual_token_reserves as u128) + (amount as u128));
+    let fee = fee(gross);
+    if gross - fee < min_sol_output as u128 || gross > curve.real_sol_reserves as u128 {
+        return Err(pump_error(6003, "TooLittleSolReceived"));
+    }
+    let (gross, fee) = (gross as u64, fee as u64);
+
+    let user = &accounts[USER];
+    let bonding_curve = &accounts[BONDING_CURVE];
+    let fee_recipient = &accounts[FEE_RECIPIENT];
+    let token_program = accounts
+        .get(9)
+        .ok_or(ProgramError::NotEnoughAccountKeys)?;
+
+    invoke(
+        &spl_token::instruction::transfer(
+            token_program.key,
+            accounts[ASSOCIATED_USER].key,
+            accounts[ASSOCIATED_BONDING_CURVE].key,
+            user.key,
+            &[],
+            amount,
+        )?,
+        &[
+            accounts[ASSOCIATED_USER].clone(),
+            accounts[ASSOCIATED_BONDING_CURVE].clone(),
+            user.clone(),
+            token_program.clone(),
+        ],
+    )?;
+
+    // The curve account is owned by this program, so lamports move without a CPI
+    **bonding_curve.try_borrow_mut_lamports()? -= gross;
+    **user.try_borrow_mut_lamports()? += gross - fee;
+    **fee_recipient.try_borrow_mut_lamports()? += fee;
+
+    curve.virtual_sol_reserves -= gross;
+    curve.virtual_token_reserves += amount;
+    curve.real_sol_reserves -= gross;
+    curve.real_token_reserves += amount;
+    Ok(gross)
+}
@@ -0,0 +1,180 @@
+import { Idl } from "@coral-xyz/anchor";
+import {
+  ASSOC_TOKEN_ACC_PROG,
+  EVENT_AUTHORITY,
+  FEE_RECIPIENT,
+  GLOBAL,
+  MINT_AUTHORITY,
+  MPL_TOKEN_METADATA,
+  PUMP_FUN_PROGRAM,
+  RENT,
+  SYSTEM_PROGRAM,
+  TOKEN_PROGRAM,
+} from "./constants";
+
+// Subset of the pump.fun program IDL used by the bot, in Anchor 0.30 format
+export const PUMP_FUN_IDL: Idl = {
+  address: PUMP_FUN_PROGRAM,
+  metadata: {
+    name: "pump",
+    version: "0.1.0",
+    spec: "0.1.0",
+  },
+  instructions: [
+    {
+      name: "create",
+      discriminator: [24, 30, 200, 40, 5, 28, 7, 119],
+      accounts: [
+        { name: "mint", writable: true, signer: true },
+        { name: "mint_authority", address: MINT_AUTHORITY },
+        { name: "bonding_curve", writable: true },
+        { name: "associated_bonding_curve", writable: true },
+        { name: "global", address: GLOBAL },
+        { name: "mpl_token_metadata", address: MPL_TOKEN_METADATA },
+        { name: "metadata", writable: true },
+        { name: "user", writable: true, signer: true },
+        { name: "system_program", address: SYSTEM_PROGRAM },
+        { name: "token_program", address: TOKEN_PROGRAM },
+        { name: "associated_token_program", address: ASSOC_TOKEN_ACC_PROG },
+        { name: "rent", address: RENT },
+        { name: "event_authority", address: EVENT_AUTHORITY },
+        { name: "program", address: PUMP_FUN_PROGRAM },
+      ],
+      args: [
+        { name: "name", type: "string" },
+        { name: "symbol", type: "string" },
+        { name: "uri", type: "string" },
+      ],
+    },
+    {
+      name: "buy",
+      discriminator: [102, 6, 61, 18, 1, 218, 235, 234],
+      accounts: [
+        { name: "global", address: GLOBAL },
+        { name: "fee_recipient", writable: true, address: FEE_RECIPIENT },
+        { name: "mint" },
+        { name: "bonding_curve", writable: true },
+        { name: "associated_bonding_curve", writable: true },
+        { name: "associated_user", writable: true },
+        { name: "user", writable: true, signer: true },
+        { name: "system_program", address: SYSTEM_PROGRAM },
+        { name: "token_program", address: TOKEN_PROGRAM },
+        { name: "rent", address: RENT },
+        { name: "event_authority", address: EVENT_AUTHORITY },
+        { name: "program", address: PUMP_FUN_PROGRAM },
+      ],
+      args: [
+        { name: "amount", type: "u64" },
+        { name: "max_sol_cost", type: "u64" },
+      ],
+    },
+    {
+      name: "sell",
+      discriminator: [51, 230, 133, 164, 1, 127, 131, 173],
+      accounts: [
+        { name: "global", address: GLOBAL },
+        { name: "fee_recipient", writable: true, address: FEE_RECIPIENT },
+        { name: "mint" },
+        { name: "bonding_curve", writable: true },
+        { name: "associated_bonding_curve", writable: true },
+        { name: "associated_user", writable: true },
+        { name: "user", writable: true, signer: true },
+        { name: "system_program", address: SYSTEM_PROGRAM },
+        { name: "associated_token_program", address: ASSOC_TOKEN_ACC_PROG },
+        { name: "token_program", address: TOKEN_PROGRAM },
+        { name: "event_authority", address: EVENT_AUTHORITY },
+        { name: "program", address: PUMP_FUN_PROGRAM },
+      ],
+      args: [
+        { name: "amount", type: "u64" },
+        { name: "min_sol_output", type: "u64" },
+      ],
+    },
+  ],
+  accounts: [
+    {
+      name: "BondingCurve",
+      discriminator: [23, 183, 248, 55, 96, 216, 172, 96],
+    },
+  ],
+  events: [
+    {
+      name: "TradeEvent",
+      discriminator: [189, 219, 127, 211, 78, 230, 97, 238],
+    },
+  ],
+  errors: [
+    {
+      code: 6000,
+      name: "NotAuthorized",
+      msg: "The given account is not authorized to execute this instruction.",
+    },
+    {
+      code: 6001,
+      name: "AlreadyInitialized",
+      msg: "The program is already initialized.",
+    },
+    {
+      code: 6002,
+      name: "TooMuchSolRequired",
+      msg: "slippage: Too much SOL required to buy the given amount of tokens.",
+    },
+    {
+      code: 6003,
+      name: "TooLittleSolReceived",
+      msg: "slippage: Too little SOL received to sell the given amount of tokens.",
+    },
+    {
+      code: 6004,
+      name: "MintDoesNotMatchBondingCurve",
+      msg: "The mint does not match the bonding curve.",
+    },
+    {
+      code: 6005,
+      name: "BondingCurveComplete",
+      msg: "The bonding curve has completed and liquidity migrated to raydium.",
+    },
+    {
+      code: 6006,
+      name: "BondingCurveNotComplete",
+      msg: "The bonding curve has not completed.",
+    },
+    {
+      code: 6007,
+      name: "NotInitialized",
+      msg: "The program is not initialized.",
+    },
+  ],
+  types: [
+    {
+      name: "BondingCurve",
+      type: {
+        kind: "struct",
+        fields: [
+          { name: "virtual_token_reserves", type: "u64" },
+          { name: "virtual_sol_reserves", type: "u64" },
+          { name: "real_token_reserves", type: "u64" },
+          { name: "real_sol_reserves", type: "u64" },
+          { name: "token_total_supply", type: "u64" },
+          { name: "complete", type: "bool" },
+        ],
+      },
+    },
+    {
+      name: "TradeEvent",
+      type: {
+        kind: "struct",
+        fields: [
+          { name: "mint", type: "pubkey" },
+          { name: "sol_amount", type: "u64" },
+          { name: "token_amount", type: "u64" },
+          { name: "is_buy", type: "bool" },
+          { name: "user", type: "pubkey" },
+          { name: "timestamp", type: "i64" },
+          { name: "virtual_sol_reserves", type: "u64" },
+          { name: "virtual_token_reserves", type: "u64" },
+        ],
+      },
+    },
+  ],
+};
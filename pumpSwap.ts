@@ -0,0 +1,326 @@
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountLayout,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  PUMP_FEE_PROGRAM,
+  PUMP_FUN_PROGRAM,
+  PUMP_SWAP_PROGRAM,
+} from "./constants";
+import { DexAdapterType, PoolType, getPoolReserves } from "./dex";
+import { getSellQuote } from "./quote";
+import { connection } from "./utils";
+
+// Anchor discriminators: first 8 bytes of sha256("account:Pool"), sha256("account:GlobalConfig")
+// and sha256("global:sell")
+const POOL_DISCRIMINATOR = Buffer.from("f19a6d0411b16dbc", "hex");
+const GLOBAL_CONFIG_DISCRIMINATOR = Buffer.from("95089ccaa0fcb0d9", "hex");
+const SELL_DISCRIMINATOR = Buffer.from("33e685a4017f83ad", "hex");
+
+const POOL_SIZE = 243;
+const GLOBAL_CONFIG_SIZE = 321;
+const PROTOCOL_FEE_RECIPIENTS = 8;
+const CANONICAL_POOL_INDEX = 0; // index of the pool pump.fun opens when a curve completes
+
+export type PumpSwapPoolStateType = {
+  creator: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  poolBaseTokenAccount: PublicKey;
+  poolQuoteTokenAccount: PublicKey;
+  coinCreator: PublicKey; // PublicKey.default for pools without a creator fee
+};
+
+export type PumpSwapGlobalConfigType = {
+  lpFeeBasisPoints: number;
+  protocolFeeBasisPoints: number;
+  coinCreatorFeeBasisPoints: number;
+  protocolFeeRecipients: PublicKey[];
+};
+
+type PumpSwapPoolInfoType = {
+  pool: PoolType;
+  state: PumpSwapPoolStateType;
+  config: PumpSwapGlobalConfigType;
+};
+
+export type PumpSwapSellParams = {
+  pool: PublicKey;
+  state: PumpSwapPoolStateType;
+  protocolFeeRecipient: PublicKey;
+  user: PublicKey;
+  amount: bigint; // raw token units to sell
+  minSolOutput: bigint; // lamports
+};
+
+const programId = new PublicKey(PUMP_SWAP_PROGRAM);
+
+function findAddress(seeds: Buffer[], program = programId) {
+  return PublicKey.findProgramAddressSync(seeds, program)[0];
+}
+
+// Derive the authority pump.fun migrates the curve of [mint] with, the creator of its pool
+export function getPumpPoolAuthority(mint: PublicKey) {
+  return findAddress(
+    [Buffer.from("pool-authority"), mint.toBuffer()],
+    new PublicKey(PUMP_FUN_PROGRAM)
+  );
+}
+
+// Derive the SOL pool pump.fun opens on PumpSwap for [mint] when its curve completes
+export function getCanonicalPoolAddress(mint: PublicKey) {
+  const index = Buffer.alloc(2);
+  index.writeUInt16LE(CANONICAL_POOL_INDEX);
+  return findAddress([
+    Buffer.from("pool"),
+    index,
+    getPumpPoolAuthority(mint).toBuffer(),
+    mint.toBuffer(),
+    NATIVE_MINT.toBuffer(),
+  ]);
+}
+
+export function getGlobalConfigAddress() {
+  return findAddress([Buffer.from("global_config")]);
+}
+
+// Derive the vault authority collecting the creator fee of [coinCreator]
+export function getCoinCreatorVaultAuthority(coinCreator: PublicKey) {
+  return findAddress([Buffer.from("creator_vault"), coinCreator.toBuffer()]);
+}
+
+function readPublicKey(data: Buffer, offset: number) {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+function hasDiscriminator(data: Buffer, discriminator: Buffer, size: number) {
+  return data.length >= size && data.subarray(0, 8).equals(discriminator);
+}
+
+// Decode raw Pool account data into its mints, vaults and coin creator
+export function decodePumpSwapPool(data: Buffer): PumpSwapPoolStateType {
+  if (!hasDiscriminator(data, POOL_DISCRIMINATOR, POOL_SIZE)) {
+    throw new Error("Account is not a PumpSwap pool");
+  }
+
+  // Layout after the discriminator: bump u8, index u16, then the keys, lp supply u64, coin creator
+  return {
+    creator: readPublicKey(data, 11),
+    baseMint: readPublicKey(data, 43),
+    quoteMint: readPublicKey(data, 75),
+    poolBaseTokenAccount: readPublicKey(data, 139),
+    poolQuoteTokenAccount: readPublicKey(data, 171),
+    coinCreator: readPublicKey(data, 211),
+  };
+}
+
+// Decode raw GlobalConfig account data into the fees every PumpSwap trade pays
+export function decodePumpSwapGlobalConfig(
+  data: Buffer
+): PumpSwapGlobalConfigType {
+  if (
+    !hasDiscriminator(data, GLOBAL_CONFIG_DISCRIMINATOR, GLOBAL_CONFIG_SIZE)
+  ) {
+    throw new Error("Account is not the PumpSwap global config");
+  }
+
+  // Layout after the discriminator: admin, lp fee u64, protocol fee u64, disable flags u8,
+  // 8 protocol fee recipients, coin creator fee u64
+  return {
+    lpFeeBasisPoints: Number(data.readBigUInt64LE(40)),
+    protocolFeeBasisPoints: Number(data.readBigUInt64LE(48)),
+    protocolFeeRecipients: Array.from(
+      { length: PROTOCOL_FEE_RECIPIENTS },
+      (_, index) => readPublicKey(data, 57 + index * 32)
+    ),
+    coinCreatorFeeBasisPoints: Number(data.readBigUInt64LE(313)),
+  };
+}
+
+// Fee a sell from [state] pays in total, the coin creator's share only when the pool has one
+export function getPumpSwapFeeBasisPoints(
+  state: PumpSwapPoolStateType,
+  config: PumpSwapGlobalConfigType
+) {
+  return (
+    config.lpFeeBasisPoints +
+    config.protocolFeeBasisPoints +
+    (state.coinCreator.equals(PublicKey.default)
+      ? 0
+      : config.coinCreatorFeeBasisPoints)
+  );
+}
+
+// Build the PumpSwap sell of [amount] tokens into the user's wrapped SOL account
+export function buildPumpSwapSellInstruction({
+  pool,
+  state,
+  protocolFeeRecipient,
+  user,
+  amount,
+  minSolOutput,
+}: PumpSwapSellParams) {
+  const data = Buffer.alloc(24);
+  SELL_DISCRIMINATOR.copy(data, 0);
+  data.writeBigUInt64LE(amount, 8);
+  data.writeBigUInt64LE(minSolOutput, 16);
+
+  const coinCreatorVaultAuthority = getCoinCreatorVaultAuthority(
+    state.coinCreator
+  );
+  const keys = [
+    [pool, false, true],
+    [user, true, true],
+    [getGlobalConfigAddress(), false, false],
+    [state.baseMint, false, false],
+    [state.quoteMint, false, false],
+    [getAssociatedTokenAddressSync(state.baseMint, user), false, true],
+    [getAssociatedTokenAddressSync(state.quoteMint, user), false, true],
+    [state.poolBaseTokenAccount, false, true],
+    [state.poolQuoteTokenAccount, false, true],
+    [protocolFeeRecipient, false, false],
+    [
+      getAssociatedTokenAddressSync(
+        state.quoteMint,
+        protocolFeeRecipient,
+        true
+      ),
+      false,
+      true,
+    ],
+    [TOKEN_PROGRAM_ID, false, false],
+    [TOKEN_PROGRAM_ID, false, false],
+    [SystemProgram.programId, false, false],
+    [ASSOCIATED_TOKEN_PROGRAM_ID, false, false],
+    [findAddress([Buffer.from("__event_authority")]), false, false],
+    [programId, false, false],
+    [
+      getAssociatedTokenAddressSync(
+        state.quoteMint,
+        coinCreatorVaultAuthority,
+        true
+      ),
+      false,
+      true,
+    ],
+    [coinCreatorVaultAuthority, false, false],
+    [
+      findAddress(
+        [Buffer.from("fee_config"), programId.toBuffer()],
+        new PublicKey(PUMP_FEE_PROGRAM)
+      ),
+      false,
+      false,
+    ],
+    [new PublicKey(PUMP_FEE_PROGRAM), false, false],
+  ] as const;
+
+  return new TransactionInstruction({
+    programId,
+    keys: keys.map(([pubkey, isSigner, isWritable]) => ({
+      pubkey,
+      isSigner,
+      isWritable,
+    })),
+    data,
+  });
+}
+
+// Read the canonical pool of [mint] with its vault balances and fees, undefined when it has none
+async function findPumpSwapPool(
+  mint: PublicKey
+): Promise<PumpSwapPoolInfoType | undefined> {
+  const address = getCanonicalPoolAddress(mint);
+  const [poolInfo, configInfo] = await connection.getMultipleAccountsInfo([
+    address,
+    getGlobalConfigAddress(),
+  ]);
+  if (
+    !poolInfo ||
+    !configInfo ||
+    !poolInfo.owner.equals(programId) ||
+    !configInfo.owner.equals(programId)
+  ) {
+    return undefined;
+  }
+
+  const state = decodePumpSwapPool(poolInfo.data);
+  const config = decodePumpSwapGlobalConfig(configInfo.data);
+  if (!state.baseMint.equals(mint) || !state.quoteMint.equals(NATIVE_MINT)) {
+    return undefined;
+  }
+
+  const [baseVault, quoteVault] = await connection.getMultipleAccountsInfo([
+    state.poolBaseTokenAccount,
+    state.poolQuoteTokenAccount,
+  ]);
+  if (!baseVault || !quoteVault) {
+    return undefined;
+  }
+
+  return {
+    pool: {
+      address,
+      mint,
+      solReserves: AccountLayout.decode(quoteVault.data).amount,
+      tokenReserves: AccountLayout.decode(baseVault.data).amount,
+      feeBasisPoints: getPumpSwapFeeBasisPoints(state, config),
+    },
+    state,
+    config,
+  };
+}
+
+// Sell migrated tokens into the PumpSwap pool pump.fun moves completed curves to.
+// Proceeds arrive as wrapped SOL, so the sell is wrapped in creating and closing that account.
+export const pumpSwapAdapter: DexAdapterType = {
+  name: "PumpSwap",
+  programId,
+  findPool: async (mint) => (await findPumpSwapPool(mint))?.pool,
+  // PumpSwap rounds each fee share up, so the payout can fall a few lamports short of
+  // this quote, well within any slippage
+  getSellQuote: (pool, tokenIn) =>
+    getSellQuote(getPoolReserves(pool), tokenIn, pool.feeBasisPoints),
+  buildSellInstructions: async (pool, user, tokenIn, minSolOutput) => {
+    const found = await findPumpSwapPool(pool.mint);
+    if (!found) {
+      throw new Error(`PumpSwap pool of ${pool.mint} is gone`);
+    }
+
+    const protocolFeeRecipient = found.config.protocolFeeRecipients.find(
+      (recipient) => !recipient.equals(PublicKey.default)
+    );
+    if (!protocolFeeRecipient) {
+      throw new Error("PumpSwap global config has no protocol fee recipient");
+    }
+
+    const wrappedSol = getAssociatedTokenAddressSync(NATIVE_MINT, user);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(
+        user,
+        wrappedSol,
+        user,
+        NATIVE_MINT
+      ),
+      buildPumpSwapSellInstruction({
+        pool: pool.address,
+        state: found.state,
+        protocolFeeRecipient,
+        user,
+        amount: tokenIn,
+        minSolOutput,
+      }),
+      createCloseAccountInstruction(wrappedSol, user, user),
+    ];
+  },
+};
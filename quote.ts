@@ -0,0 +1,158 @@
+import { FEE_BASIS_POINTS } from "./constants";
+
+const BASIS_POINTS = BigInt(10_000);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+export type CurveReservesType = {
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realTokenReserves: bigint;
+};
+
+export type BuyQuoteType = {
+  solIn: bigint; // lamports spent including the protocol fee
+  solCost: bigint; // lamports that move the curve
+  fee: bigint;
+  tokenOut: bigint;
+};
+
+export type SellQuoteType = {
+  tokenIn: bigint;
+  solOut: bigint; // lamports received after the protocol fee
+  fee: bigint;
+};
+
+// Fee charged by pump.fun on [amount] lamports
+export function getFee(amount: bigint, feeBasisPoints = FEE_BASIS_POINTS) {
+  return (amount * BigInt(feeBasisPoints)) / BASIS_POINTS;
+}
+
+// Quote tokens received for spending [solIn] lamports, fee included, on the constant-product curve
+export function getBuyQuote(
+  reserves: CurveReservesType,
+  solIn: bigint,
+  feeBasisPoints = FEE_BASIS_POINTS
+): BuyQuoteType {
+  if (solIn <= ZERO) {
+    return { solIn: ZERO, solCost: ZERO, fee: ZERO, tokenOut: ZERO };
+  }
+
+  // Split the spend so that solCost + fee(solCost) never exceeds solIn
+  const solCost =
+    (solIn * BASIS_POINTS) / (BASIS_POINTS + BigInt(feeBasisPoints));
+  const fee = getFee(solCost, feeBasisPoints);
+
+  const k = reserves.virtualSolReserves * reserves.virtualTokenReserves;
+  const newSolReserves = reserves.virtualSolReserves + solCost;
+  const newTokenReserves = k / newSolReserves + ONE;
+  let tokenOut = reserves.virtualTokenReserves - newTokenReserves;
+
+  if (tokenOut > reserves.realTokenReserves) {
+    tokenOut = reserves.realTokenReserves;
+  }
+  if (tokenOut < ZERO) {
+    tokenOut = ZERO;
+  }
+
+  return { solIn: solCost + fee, solCost, fee, tokenOut };
+}
+
+// Lamports charged for buying exactly [tokenOut] raw token units, as the program computes it
+export function getBuyCost(
+  reserves: CurveReservesType,
+  tokenOut: bigint,
+  feeBasisPoints = FEE_BASIS_POINTS
+): BuyQuoteType {
+  if (tokenOut <= ZERO) {
+    return { solIn: ZERO, solCost: ZERO, fee: ZERO, tokenOut: ZERO };
+  }
+  if (tokenOut >= reserves.virtualTokenReserves) {
+    throw new Error("Cannot buy more tokens than the curve holds");
+  }
+
+  const solCost =
+    (tokenOut * reserves.virtualSolReserves) /
+      (reserves.virtualTokenReserves - tokenOut) +
+    ONE;
+  const fee = getFee(solCost, feeBasisPoints);
+
+  return { solIn: solCost + fee, solCost, fee, tokenOut };
+}
+
+// Quote lamports received for selling [tokenIn] raw token units back to the curve
+export function getSellQuote(
+  reserves: CurveReservesType,
+  tokenIn: bigint,
+  feeBasisPoints = FEE_BASIS_POINTS
+): SellQuoteType {
+  if (tokenIn <= ZERO) {
+    return { tokenIn: ZERO, solOut: ZERO, fee: ZERO };
+  }
+
+  const grossSolOut =
+    (tokenIn * reserves.virtualSolReserves) /
+    (reserves.virtualTokenReserves + tokenIn);
+  const fee = getFee(grossSolOut, feeBasisPoints);
+
+  return { tokenIn, solOut: grossSolOut - fee, fee };
+}
+
+// Price impact of a trade in percent, measured against the current spot price of the curve
+export function getPriceImpact(
+  reserves: CurveReservesType,
+  side: "buy" | "sell",
+  amount: bigint
+) {
+  let solAmount: bigint;
+  let tokenAmount: bigint;
+
+  if (side === "buy") {
+    const quote = getBuyQuote(reserves, amount, 0);
+    solAmount = quote.solCost;
+    tokenAmount = quote.tokenOut;
+  } else {
+    const quote = getSellQuote(reserves, amount, 0);
+    solAmount = quote.solOut;
+    tokenAmount = quote.tokenIn;
+  }
+
+  if (solAmount <= ZERO || tokenAmount <= ZERO) {
+    return 0;
+  }
+
+  // Compare execution price (solAmount / tokenAmount) to spot price (virtualSol / virtualToken)
+  const execution = solAmount * reserves.virtualTokenReserves;
+  const spot = tokenAmount * reserves.virtualSolReserves;
+  const difference = execution > spot ? execution - spot : spot - execution;
+
+  return Number((difference * BASIS_POINTS) / spot) / 100;
+}
+
+// Largest token amount that sells with at most [maxImpact] percent price impact
+export function getMaxSellAmount(
+  reserves: CurveReservesType,
+  maxImpact: number
+) {
+  let low = ZERO;
+  let high = reserves.virtualTokenReserves * BigInt(100);
+  while (low < high) {
+    const middle = (low + high + BigInt(1)) / BigInt(2);
+    if (getPriceImpact(reserves, "sell", middle) <= maxImpact) {
+      low = middle;
+    } else {
+      high = middle - BigInt(1);
+    }
+  }
+  return low;
+}
+
+// Shrink [amount] by [slippage] percent, used for minimum outputs
+export function subtractSlippage(amount: bigint, slippage: number) {
+  return (amount * BigInt(Math.round((100 - slippage) * 100))) / BASIS_POINTS;
+}
+
+// Grow [amount] by [slippage] percent, used for maximum inputs
+export function addSlippage(amount: bigint, slippage: number) {
+  return (amount * BigInt(Math.round((100 + slippage) * 100))) / BASIS_POINTS;
+}
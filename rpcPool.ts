@@ -0,0 +1,368 @@
+import { RpcEndpointType, getConfig } from "./config";
+
+// Latency at which an endpoint's share of requests halves
+const REFERENCE_LATENCY_MS = 200;
+
+// Slots an endpoint may trail the highest one seen before it counts as stale
+const MAX_SLOT_LAG = 50;
+
+const HEALTH_CHECK_INTERVAL_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// How long an endpoint is passed over after a 429 without Retry-After, or a 5xx or network error
+const RATE_LIMIT_COOLDOWN_MS = 2_000;
+const ERROR_COOLDOWN_MS = 5_000;
+
+// Share of the newest sample in the latency and error rate moving averages
+const SAMPLE_WEIGHT = 0.2;
+
+export type TokenBucketType = {
+  take: () => Promise<void>;
+};
+
+// Body of a JSON-RPC answer, with either a result or an error
+type JsonRpcResponseType = {
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+type EndpointStateType = RpcEndpointType & {
+  latency: number; // ms, moving average of answered requests
+  errorRate: number; // 0..1, moving average of failed requests
+  slot: number; // confirmed slot at the last health check
+  slotLag: number; // slots behind the highest endpoint at the last health check
+  cooldownUntil: number; // ms timestamp until which failover skips this endpoint
+};
+
+// An endpoint answered with a status that says to try another one
+class EndpointError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status: number,
+    public readonly response: Response
+  ) {
+    super(`RPC ${url} answered HTTP ${status}`);
+    this.name = "EndpointError";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Token bucket refilled at [getRate] tokens per second and holding one second of them,
+// so bursts stay within the rate. A rate of 0 never waits.
+export function createTokenBucket(getRate: () => number): TokenBucketType {
+  let tokens = 0;
+  let updated = 0;
+
+  return {
+    take: async () => {
+      for (;;) {
+        const rate = getRate();
+        if (rate <= 0) {
+          return;
+        }
+        const now = Date.now();
+        tokens = Math.min(
+          Math.max(rate, 1),
+          tokens + ((now - updated) / 1000) * rate
+        );
+        updated = now;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(((1 - tokens) / rate) * 1000);
+      }
+    },
+  };
+}
+
+// Every HTTP request to an RPC endpoint takes a token from here first
+const rpcBucket = createTokenBucket(() => getConfig().rpcRate);
+
+// Weighted pool of RPC endpoints that tracks their latency, error rate and slot lag.
+// Requests go to a healthy endpoint in proportion to weight and speed, and move on
+// to the next one on 429, 5xx, network errors or timeouts.
+export class RpcPool {
+  private readonly endpoints: EndpointStateType[];
+  private lastHealthCheck = 0;
+  private checking = false;
+
+  constructor(endpoints: RpcEndpointType[]) {
+    if (endpoints.length === 0) {
+      throw new Error("The RPC pool needs at least one endpoint.");
+    }
+    this.endpoints = endpoints.map((endpoint) => ({
+      ...endpoint,
+      latency: 0,
+      errorRate: 0,
+      slot: 0,
+      slotLag: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  // Endpoint the Connection is created with, its websocket serves subscriptions
+  get primaryUrl() {
+    return this.endpoints[0].url;
+  }
+
+  // Fetch implementation for the Connection: the URL it asks for is replaced by the
+  // endpoint picked here, failing over until one answers or every one was tried
+  fetch = async (
+    _input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    this.scheduleHealthCheck();
+
+    const tried = new Set<EndpointStateType>();
+    let lastError: unknown;
+    for (
+      let endpoint = this.pick(tried);
+      endpoint;
+      endpoint = this.pick(tried)
+    ) {
+      tried.add(endpoint);
+      try {
+        return await this.post(endpoint, init?.body, init?.headers);
+      } catch (err) {
+        lastError = err;
+        if (tried.size < this.endpoints.length) {
+          console.error(
+            `${err instanceof Error ? err.message : err}, failing over to another endpoint.`
+          );
+        }
+      }
+    }
+
+    // web3.js backs off and retries a final 429 itself
+    if (lastError instanceof EndpointError) {
+      return lastError.response;
+    }
+    throw lastError;
+  };
+
+  // Send [rawTransaction] to the [count] healthiest endpoints at once and resolve with
+  // the signature from the first that accepts it, rejecting only when every one failed
+  broadcast(rawTransaction: Buffer | Uint8Array, count: number) {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "sendTransaction",
+      params: [
+        Buffer.from(rawTransaction).toString("base64"),
+        { encoding: "base64", skipPreflight: true, maxRetries: 0 },
+      ],
+    });
+    const targets = this.rank().slice(0, Math.max(count, 1));
+
+    return new Promise<string>((resolve, reject) => {
+      let failed = 0;
+      for (const endpoint of targets) {
+        this.call(endpoint, body)
+          .then((signature) => {
+            if (typeof signature !== "string") {
+              throw new Error(`RPC ${endpoint.url} returned no signature`);
+            }
+            resolve(signature);
+          })
+          .catch((err) => {
+            failed++;
+            if (failed === targets.length) {
+              reject(err);
+            }
+          });
+      }
+    });
+  }
+
+  // Read the confirmed slot of every endpoint and mark the ones trailing the highest as stale
+  async checkHealth() {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getSlot",
+      params: [{ commitment: "confirmed" }],
+    });
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const slot = await this.call(endpoint, body);
+          if (typeof slot === "number") {
+            endpoint.slot = slot;
+          }
+        } catch {
+          // Recorded as a failure by call, the slot stays as last seen
+        }
+      })
+    );
+
+    const highest = Math.max(
+      ...this.endpoints.map((endpoint) => endpoint.slot)
+    );
+    for (const endpoint of this.endpoints) {
+      const lag = highest - endpoint.slot;
+      if (lag > MAX_SLOT_LAG && endpoint.slotLag <= MAX_SLOT_LAG) {
+        console.error(
+          `RPC ${endpoint.url} is ${lag} slots behind, passing it over.`
+        );
+      }
+      endpoint.slotLag = lag;
+    }
+  }
+
+  // Check health in the background once per interval, only while requests are made
+  private scheduleHealthCheck() {
+    if (
+      this.endpoints.length < 2 ||
+      this.checking ||
+      Date.now() - this.lastHealthCheck < HEALTH_CHECK_INTERVAL_MS
+    ) {
+      return;
+    }
+    this.lastHealthCheck = Date.now();
+    this.checking = true;
+    this.checkHealth().then(
+      () => (this.checking = false),
+      () => (this.checking = false)
+    );
+  }
+
+  private isHealthy(endpoint: EndpointStateType) {
+    return (
+      endpoint.cooldownUntil <= Date.now() && endpoint.slotLag <= MAX_SLOT_LAG
+    );
+  }
+
+  private score(endpoint: EndpointStateType) {
+    return (
+      endpoint.weight *
+      (1 - 0.9 * endpoint.errorRate) *
+      (REFERENCE_LATENCY_MS / (REFERENCE_LATENCY_MS + endpoint.latency))
+    );
+  }
+
+  // Healthy endpoints by score, then the rest by how soon their cooldown ends
+  private rank() {
+    const healthy = this.endpoints.filter((endpoint) =>
+      this.isHealthy(endpoint)
+    );
+    const unhealthy = this.endpoints.filter(
+      (endpoint) => !this.isHealthy(endpoint)
+    );
+    return [
+      ...healthy.sort((a, b) => this.score(b) - this.score(a)),
+      ...unhealthy.sort((a, b) => a.cooldownUntil - b.cooldownUntil),
+    ];
+  }
+
+  // Draw a healthy endpoint not in [tried] in proportion to its score, or the
+  // unhealthy one that recovers first when no healthy one is left
+  private pick(tried: Set<EndpointStateType>) {
+    const candidates = this.rank().filter((endpoint) => !tried.has(endpoint));
+    const healthy = candidates.filter((endpoint) => this.isHealthy(endpoint));
+    if (healthy.length === 0) {
+      return candidates[0];
+    }
+
+    const total = healthy.reduce(
+      (sum, endpoint) => sum + this.score(endpoint),
+      0
+    );
+    let draw = Math.random() * total;
+    for (const endpoint of healthy) {
+      draw -= this.score(endpoint);
+      if (draw <= 0) {
+        return endpoint;
+      }
+    }
+    return healthy[healthy.length - 1];
+  }
+
+  private record(
+    endpoint: EndpointStateType,
+    failed: boolean,
+    latency?: number
+  ) {
+    endpoint.errorRate =
+      endpoint.errorRate * (1 - SAMPLE_WEIGHT) + (failed ? SAMPLE_WEIGHT : 0);
+    if (latency !== undefined) {
+      endpoint.latency =
+        endpoint.latency === 0
+          ? latency
+          : endpoint.latency * (1 - SAMPLE_WEIGHT) + latency * SAMPLE_WEIGHT;
+    }
+  }
+
+  // POST [body] to [endpoint], throwing on statuses and errors another endpoint may not have
+  private async post(
+    endpoint: EndpointStateType,
+    body: BodyInit | null | undefined,
+    headers?: HeadersInit
+  ) {
+    // Every request, failovers and broadcasts included, counts against the rate limit
+    await rpcBucket.take();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const start = Date.now();
+    const requestHeaders = new Headers(headers);
+    if (!requestHeaders.has("Content-Type")) {
+      requestHeaders.set("Content-Type", "application/json");
+    }
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: requestHeaders,
+        body,
+        signal: controller.signal,
+      });
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfter = Number(response.headers.get("Retry-After"));
+        this.record(endpoint, true);
+        endpoint.cooldownUntil =
+          Date.now() +
+          (response.status === 429
+            ? retryAfter > 0
+              ? retryAfter * 1000
+              : RATE_LIMIT_COOLDOWN_MS
+            : ERROR_COOLDOWN_MS);
+        throw new EndpointError(endpoint.url, response.status, response);
+      }
+      this.record(endpoint, false, Date.now() - start);
+      return response;
+    } catch (err) {
+      if (!(err instanceof EndpointError)) {
+        this.record(endpoint, true);
+        endpoint.cooldownUntil = Date.now() + ERROR_COOLDOWN_MS;
+        throw new Error(
+          `RPC ${endpoint.url} unreachable (${err instanceof Error ? err.message : err})`
+        );
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Make one JSON-RPC call on [endpoint] and return its result, left to the caller to check
+  private async call(endpoint: EndpointStateType, body: string) {
+    const response = await this.post(endpoint, body);
+    const json: unknown = await response.json();
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error(`RPC ${endpoint.url} answered without a JSON-RPC object`);
+    }
+
+    const { result, error } = json as JsonRpcResponseType;
+    if (error) {
+      throw new Error(`RPC ${endpoint.url}: ${error.message}`);
+    }
+    return result;
+  }
+}
+
+// Pool over [endpoints] whose fetch a Connection sends every request through
+export function createRpcPool(endpoints: RpcEndpointType[]) {
+  return new RpcPool(endpoints);
+}
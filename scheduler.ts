@@ -0,0 +1,127 @@
+import { getConfig } from "./config";
+import { ProgramError } from "./programErrors";
+import { connection } from "./utils";
+
+// First retry waits this long, every further retry twice as long
+const RETRY_DELAY_MS = 1_000;
+
+// getSignatureStatuses accepts at most this many signatures per call
+const MAX_SIGNATURES_PER_CALL = 256;
+
+const CONFIRMATION_POLL_MS = 500;
+
+export type TaskResultType<R> =
+  { status: "done"; value: R } | { status: "failed"; error: unknown };
+
+export type TaskOptionsType = {
+  concurrency?: number; // tasks running at once, concurrency from the configuration by default
+  retries?: number; // extra attempts after a failure that can succeed later, taskRetries by default
+  isFatal?: (err: unknown) => boolean; // failures that stop every task not started yet
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Rejections by the program fail the same way on every attempt, anything else
+// (SendErrors for expired or unconfirmed sends, RPC errors) can succeed later
+function isRetryable(err: unknown) {
+  return !(err instanceof ProgramError);
+}
+
+// Run [task] for every item with at most [concurrency] running at once, retrying failures
+// that can succeed later with exponential backoff. Results keep the order of [items]. A fatal
+// failure starts no further task and is thrown once the running ones settle.
+export async function runTasks<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  options: TaskOptionsType = {}
+): Promise<TaskResultType<R>[]> {
+  const { concurrency, taskRetries } = getConfig();
+  const limit = Math.max(options.concurrency ?? concurrency, 1);
+  const retries = options.retries ?? taskRetries;
+  const results: TaskResultType<R>[] = new Array(items.length);
+  let next = 0;
+  let fatal: { error: unknown } | undefined;
+
+  const attempt = async (index: number): Promise<TaskResultType<R>> => {
+    for (let tries = 0; ; tries++) {
+      try {
+        return { status: "done", value: await task(items[index], index) };
+      } catch (err) {
+        if (tries >= retries || !isRetryable(err) || fatal) {
+          return { status: "failed", error: err };
+        }
+        const delay = RETRY_DELAY_MS * Math.pow(2, tries);
+        console.error(
+          `Task ${index + 1} failed (${
+            err instanceof Error ? err.message : err
+          }), retrying in ${delay / 1000} seconds...`
+        );
+        await sleep(delay);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!fatal && next < items.length) {
+      const index = next++;
+      const result = await attempt(index);
+      results[index] = result;
+      if (result.status === "failed" && options.isFatal?.(result.error)) {
+        fatal = fatal ?? { error: result.error };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  if (fatal) {
+    throw fatal.error;
+  }
+  return results;
+}
+
+// Resolve once every one of [signatures] is confirmed, in place of a fixed sleep before
+// reading the balances they changed. Throws when one failed or [seconds] pass first.
+export async function waitForConfirmations(
+  signatures: (string | undefined)[],
+  seconds = 60
+) {
+  const pending = new Set(
+    signatures.filter((signature): signature is string => !!signature)
+  );
+  const deadline = Date.now() + seconds * 1000;
+
+  while (pending.size > 0) {
+    const list = Array.from(pending);
+    for (let start = 0; start < list.length; start += MAX_SIGNATURES_PER_CALL) {
+      const chunk = list.slice(start, start + MAX_SIGNATURES_PER_CALL);
+      const { value } = await connection.getSignatureStatuses(chunk, {
+        searchTransactionHistory: true,
+      });
+      value.forEach((status, index) => {
+        if (status?.err) {
+          throw new Error(`Transaction ${chunk[index]} failed.`);
+        }
+        if (
+          status?.confirmationStatus === "confirmed" ||
+          status?.confirmationStatus === "finalized"
+        ) {
+          pending.delete(chunk[index]);
+        }
+      });
+    }
+
+    if (pending.size === 0) {
+      return;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `${pending.size} transaction(s) not confirmed after ${seconds} seconds.`
+      );
+    }
+    await sleep(CONFIRMATION_POLL_MS);
+  }
+}
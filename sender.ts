@@ -0,0 +1,295 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  addPriorityFee,
+  logPriorityFee,
+  simulateInstructions,
+} from "./priorityFee";
+import {
+  InsufficientFundsError,
+  ProgramError,
+  decodeProgramError,
+} from "./programErrors";
+import { getConfig } from "./config";
+import { SubmitHookType, getRpcPool, isPaperTrading } from "./utils";
+
+const MAX_REBUILDS = 3; // fresh blockhashes tried after the first one expires
+const REBROADCAST_INTERVAL_MS = 2000;
+const MAX_POLL_FAILURES = 10; // status reads failing in a row before the RPC counts as down
+
+// Why a transaction did not land: rejected by simulation, failed on chain,
+// blockhash expired on every rebuild, or the RPC could not be reached
+export type SendErrorKindType =
+  "simulation" | "transaction" | "expired" | "network";
+
+export type SendResultType = {
+  signature?: string; // last signature broadcast
+  slot?: number; // slot the transaction landed in
+  fee?: number; // lamports paid, from the transaction meta when available
+  error?: SendErrorKindType;
+  message?: string;
+  programError?: ProgramError; // decoded reason a program rejected the simulation
+};
+
+// A send that did not land for a reason other than the program, worth retrying later
+export class SendError extends Error {
+  constructor(
+    public readonly kind: SendErrorKindType,
+    message: string,
+    public readonly signature?: string
+  ) {
+    super(message);
+    this.name = "SendError";
+  }
+}
+
+export type SendOptionsType = {
+  payer: Keypair;
+  instructions: TransactionInstruction[];
+  signers?: Keypair[]; // additional signers besides the payer
+  lookupTables?: AddressLookupTableAccount[];
+  onSubmit?: SubmitHookType;
+  // Rebuild [instructions] once the fee in lamports is known, for amounts that depend on it.
+  // Only [instructions] are simulated, so the rebuilt ones must differ in amounts alone.
+  withFee?: (fee: number) => TransactionInstruction[];
+};
+
+function describeError(err: unknown) {
+  return err instanceof Error ? err.message : JSON.stringify(err);
+}
+
+// Read the fee charged for [signature], falling back to [estimate] if the RPC has no meta yet
+async function getPaidFee(
+  connection: Connection,
+  signature: string,
+  estimate: number
+) {
+  try {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    return transaction?.meta?.fee ?? estimate;
+  } catch {
+    return estimate;
+  }
+}
+
+// Result of [signature] once it is confirmed, undefined while it is not
+async function getSettledResult(
+  connection: Connection,
+  signature: string
+): Promise<SendResultType | undefined> {
+  const { value } = await connection.getSignatureStatuses([signature]);
+  const status = value[0];
+  if (
+    status?.confirmationStatus !== "confirmed" &&
+    status?.confirmationStatus !== "finalized"
+  ) {
+    return undefined;
+  }
+  if (status.err) {
+    return {
+      signature,
+      slot: status.slot,
+      error: "transaction",
+      message: JSON.stringify(status.err),
+    };
+  }
+  return { signature, slot: status.slot };
+}
+
+// Broadcast [transaction] until it is confirmed or its blockhash expires
+async function broadcastUntilSettled(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<SendResultType | undefined> {
+  const rawTransaction = transaction.serialize();
+  let pollFailures = 0;
+
+  while (true) {
+    try {
+      // Several endpoints at once give the transaction more paths to the leader
+      const pool = getRpcPool(connection);
+      if (pool) {
+        await pool.broadcast(rawTransaction, getConfig().broadcastEndpoints);
+      } else {
+        await connection.sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        });
+      }
+    } catch (err) {
+      // A node rejecting one broadcast is not final, the next one may get through
+      console.error(`Error in broadcasting ${signature}: `, describeError(err));
+    }
+
+    // Paper transactions settle on broadcast
+    if (!isPaperTrading()) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, REBROADCAST_INTERVAL_MS)
+      );
+    }
+
+    // The transaction may still land while the RPC hiccups, so polling goes on until expiry
+    try {
+      const settled = await getSettledResult(connection, signature);
+      if (settled) {
+        return settled;
+      }
+
+      const blockHeight = await connection.getBlockHeight("confirmed");
+      if (blockHeight > lastValidBlockHeight) {
+        // It can have landed between the status check and the block height read
+        return await getSettledResult(connection, signature);
+      }
+      pollFailures = 0;
+    } catch (err) {
+      pollFailures++;
+      if (pollFailures >= MAX_POLL_FAILURES) {
+        throw err;
+      }
+      console.error(`Error in polling ${signature}: `, describeError(err));
+    }
+  }
+}
+
+// Simulate, sign and send [instructions], rebuilding with a fresh blockhash when it expires
+export async function sendTransaction(
+  connection: Connection,
+  options: SendOptionsType
+): Promise<SendResultType> {
+  const { payer, signers = [], lookupTables = [], onSubmit } = options;
+  let signature: string | undefined;
+
+  try {
+    for (let attempt = 0; attempt <= MAX_REBUILDS; attempt++) {
+      // Nothing is broadcast when simulation fails, the program error says why. Failures
+      // no program reported, e.g. an unknown blockhash, carry none and can be retried.
+      const simulation = await simulateInstructions(
+        connection,
+        options.instructions,
+        payer.publicKey,
+        lookupTables
+      );
+      if (simulation.err) {
+        const programError = decodeProgramError(
+          simulation.err,
+          simulation.logs,
+          simulation.programIds
+        );
+        return {
+          error: "simulation",
+          message:
+            programError?.message ??
+            `Simulation failed: ${JSON.stringify(simulation.err)}`,
+          programError,
+        };
+      }
+
+      // Escalating fee mode pays more on every rebuild
+      const instructions = [...options.instructions];
+      const fee = await addPriorityFee(
+        connection,
+        instructions,
+        simulation.unitsConsumed,
+        attempt
+      );
+      if (options.withFee) {
+        // Compute budget instructions stay in front, only the payload is rebuilt
+        const budget = instructions.length - options.instructions.length;
+        instructions.splice(
+          budget,
+          options.instructions.length,
+          ...options.withFee(
+            fee.baseLamports * (1 + signers.length) + fee.priorityLamports
+          )
+        );
+      } else if (
+        simulation.payerLamports !== undefined &&
+        simulation.payerLamports < fee.priorityLamports
+      ) {
+        // The simulation charged the signature fee only, the priority fee comes on top
+        const programError = new InsufficientFundsError(
+          "Wallet does not hold enough SOL for the priority fee.",
+          undefined,
+          simulation.logs
+        );
+        return {
+          error: "simulation",
+          message: programError.message,
+          programError,
+        };
+      }
+
+      const latestBlockhash = await connection.getLatestBlockhash("confirmed");
+      const messageV0 = new TransactionMessage({
+        payerKey: payer.publicKey,
+        recentBlockhash: latestBlockhash.blockhash,
+        instructions,
+      }).compileToV0Message(lookupTables);
+      const transaction = new VersionedTransaction(messageV0);
+      transaction.sign([payer, ...signers]);
+      signature = bs58.encode(transaction.signatures[0]);
+
+      await onSubmit?.(signature, latestBlockhash.lastValidBlockHeight);
+      console.log(`Transaction Submitted: ${signature}`);
+
+      const result = await broadcastUntilSettled(
+        connection,
+        transaction,
+        signature,
+        latestBlockhash.lastValidBlockHeight
+      );
+      if (!result) {
+        console.log(`Blockhash of ${signature} expired before confirmation.`);
+        continue;
+      }
+
+      const estimate =
+        fee.baseLamports * transaction.signatures.length + fee.priorityLamports;
+      result.fee = await getPaidFee(connection, signature, estimate);
+      if (!result.error) {
+        console.log(
+          isPaperTrading()
+            ? `Paper transaction confirmed: ${signature}`
+            : `Transaction Successfully Confirmed! View on SolScan: https://solscan.io/tx/${signature}`
+        );
+        logPriorityFee(signature, fee, result.fee);
+      }
+      return result;
+    }
+
+    return {
+      signature,
+      error: "expired",
+      message: `blockhash expired ${MAX_REBUILDS + 1} times`,
+    };
+  } catch (err) {
+    return { signature, error: "network", message: describeError(err) };
+  }
+}
+
+// Turn a failed [result] into an error for callers that throw
+export function assertSent(result: SendResultType) {
+  if (result.programError) {
+    throw result.programError;
+  }
+  if (result.error || !result.signature) {
+    throw new SendError(
+      result.error ?? "network",
+      `Transaction failed (${result.error}): ${result.message ?? "unknown"}`,
+      result.signature
+    );
+  }
+  return result.signature;
+}
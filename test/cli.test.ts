@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { CliUsageError, getConfigOverrides, parseCliArgs } from "../cli";
+import { loadConfig } from "../config";
+
+const FILE_MINT = "So11111111111111111111111111111111111111112";
+const ENV_MINT = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const FLAG_MINT = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+
+function assertUsageError(argv: string[], message: RegExp) {
+  assert.throws(
+    () => parseCliArgs(argv),
+    (err) => err instanceof CliUsageError && message.test(err.message)
+  );
+}
+
+const directories: string[] = [];
+
+// Config file setting [settings], removed again after each spec
+function writeConfig(settings: Record<string, unknown>) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+  directories.push(directory);
+  const file = path.join(directory, "bot.config.json");
+  fs.writeFileSync(file, JSON.stringify(settings));
+  return file;
+}
+
+describe("command line", () => {
+  afterEach(() => {
+    delete process.env.TOKEN_MINT;
+    delete process.env.SLIPPAGE;
+    for (const directory of directories.splice(0)) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("parses a subcommand with its flags", () => {
+    const options = parseCliArgs([
+      "sell",
+      "--mode",
+      "direct",
+      "--percent",
+      "50",
+      "--slippage",
+      "2.5",
+      "--json",
+    ]);
+    assert.equal(options.command, "sell");
+    assert.equal(options.sellMode, "direct");
+    assert.equal(options.percent, 50);
+    assert.equal(options.slippage, 2.5);
+    assert.equal(options.json, true);
+    assert.equal(options.amount, undefined);
+  });
+
+  it("rejects unknown flags and commands", () => {
+    assertUsageError(["sell", "--precent", "50"], /^Unknown flag: --precent$/);
+    assertUsageError(["-x", "--foo"], /^Unknown flags: -x, --foo$/);
+    assertUsageError(["sel"], /^Unknown command: sel$/);
+    assertUsageError(["campaign", "delete"], /campaign needs one of/);
+    assertUsageError(["buy", "now"], /^Unexpected arguments: now$/);
+  });
+
+  it("rejects number flags that are not numbers", () => {
+    assertUsageError(["sell", "--amount", "abc"], /--amount must be a number/);
+    assertUsageError(["buy", "--min"], /--min must be a number/);
+    assertUsageError(["buy", "--max="], /--max must be a number/);
+    assertUsageError(["generate", "--count", "2.5"], /positive integer/);
+    assertUsageError(["sell", "--percent", "150"], /at most 100/);
+  });
+
+  it("rejects string flags without a value", () => {
+    assertUsageError(["buy", "--mint"], /--mint needs a value/);
+  });
+
+  it("rejects --percent combined with --amount", () => {
+    assertUsageError(
+      ["sell", "--percent", "50", "--amount", "1000"],
+      /--percent and --amount cannot be combined/
+    );
+  });
+
+  it("exits with status 2 on bad arguments", () => {
+    const result = spawnSync(
+      process.execPath,
+      [
+        "--require",
+        "ts-node/register",
+        path.join(__dirname, "..", "main.ts"),
+        "sell",
+        "--percent",
+        "50",
+        "--amount",
+        "1000",
+      ],
+      { encoding: "utf8", timeout: 120_000 }
+    );
+    assert.equal(result.status, 2);
+    assert.match(result.stderr, /--percent and --amount cannot be combined/);
+    assert.match(result.stderr, /^Usage:/m);
+  });
+
+  it("lets flags win over env vars and env vars over the config file", () => {
+    const configFile = writeConfig({
+      tokenMint: FILE_MINT,
+      slippage: 3,
+      priorityFee: 1000,
+    });
+    process.env.TOKEN_MINT = ENV_MINT;
+    process.env.SLIPPAGE = "4";
+
+    const config = loadConfig(
+      getConfigOverrides(
+        parseCliArgs([
+          "buy",
+          "--config",
+          configFile,
+          "--mint",
+          FLAG_MINT,
+          "--slippage",
+          "5",
+        ])
+      )
+    );
+    assert.equal(config.tokenMint, FLAG_MINT);
+    assert.equal(config.slippage, 5);
+    assert.equal(config.priorityFee, 1000);
+
+    const withoutFlags = loadConfig(
+      getConfigOverrides(parseCliArgs(["buy", "--config", configFile]))
+    );
+    assert.equal(withoutFlags.tokenMint, ENV_MINT);
+    assert.equal(withoutFlags.slippage, 4);
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { ConfigError, getProfileName, loadConfig } from "../config";
+
+const ENV_VARS = ["BOT_PROFILE", "SLIPPAGE", "CONCURRENCY", "FEE_MODE"];
+
+// Two profiles on top of shared settings, mainnet picked when no profile is asked for
+const PROFILES_YAML = `
+slippage: 2
+concurrency: 3
+defaultProfile: mainnet
+profiles:
+  mainnet:
+    rpcUrl: https://mainnet.example.com
+    slippage: 5
+  devnet:
+    rpcUrl: https://devnet.example.com
+    feeMode: fixed
+`;
+
+const directories: string[] = [];
+
+// Config file named [name] holding [text], removed again after each spec
+function writeConfig(name: string, text: string) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+  directories.push(directory);
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+function assertProblems(load: () => unknown, problems: RegExp[]) {
+  assert.throws(load, (err) => {
+    assert.ok(err instanceof ConfigError);
+    assert.equal(err.problems.length, problems.length);
+    problems.forEach((problem, index) =>
+      assert.match(err.problems[index], problem)
+    );
+    return true;
+  });
+}
+
+describe("config", () => {
+  afterEach(() => {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    for (const directory of directories.splice(0)) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("applies the default profile over the shared settings", () => {
+    const configFile = writeConfig("bot.config.yaml", PROFILES_YAML);
+    const config = loadConfig({ configFile });
+    assert.equal(getProfileName(), "mainnet");
+    assert.equal(config.rpcUrl, "https://mainnet.example.com");
+    assert.equal(config.slippage, 5);
+    assert.equal(config.concurrency, 3);
+  });
+
+  it("selects the profile by flag before BOT_PROFILE", () => {
+    const configFile = writeConfig("bot.config.yaml", PROFILES_YAML);
+
+    process.env.BOT_PROFILE = "devnet";
+    const fromEnv = loadConfig({ configFile });
+    assert.equal(getProfileName(), "devnet");
+    assert.equal(fromEnv.rpcUrl, "https://devnet.example.com");
+    assert.equal(fromEnv.feeMode, "fixed");
+    assert.equal(fromEnv.slippage, 2);
+
+    const fromFlag = loadConfig({ configFile, profile: "mainnet" });
+    assert.equal(getProfileName(), "mainnet");
+    assert.equal(fromFlag.rpcUrl, "https://mainnet.example.com");
+  });
+
+  it("names the available profiles when the selected one is missing", () => {
+    const configFile = writeConfig("bot.config.yaml", PROFILES_YAML);
+    assertProblems(
+      () => loadConfig({ configFile, profile: "testnet" }),
+      [/^profile "testnet" is not defined \(available: mainnet, devnet\)$/]
+    );
+  });
+
+  it("takes the profile over the file, env over the profile and flags over env", () => {
+    const configFile = writeConfig("bot.config.yaml", PROFILES_YAML);
+
+    process.env.SLIPPAGE = "7";
+    process.env.CONCURRENCY = "4";
+    const fromEnv = loadConfig({ configFile });
+    assert.equal(fromEnv.slippage, 7);
+    assert.equal(fromEnv.concurrency, 4);
+
+    const fromFlags = loadConfig({ configFile, slippage: 9 });
+    assert.equal(fromFlags.slippage, 9);
+    assert.equal(fromFlags.concurrency, 4);
+  });
+
+  it("reports every bad value of every source at once", () => {
+    const configFile = writeConfig(
+      "bot.config.json",
+      JSON.stringify({
+        slippage: 150,
+        concurrency: "many",
+        pauseOnInterruption: "yes",
+        tokenMint: "not-a-mint",
+        colour: "blue",
+      })
+    );
+    process.env.FEE_MODE = "cheap";
+
+    assertProblems(
+      () => loadConfig({ configFile, rpcUrl: "ftp://example.com" }),
+      [
+        /^slippage \(from bot\.config\.json\) must be between 0 and 100, got 150$/,
+        /^concurrency \(from bot\.config\.json\) must be a number, got "many"$/,
+        /^pauseOnInterruption \(from bot\.config\.json\) must be true or false/,
+        /^tokenMint \(from bot\.config\.json\) must be a base58 Solana address/,
+        /^unknown setting "colour" in bot\.config\.json$/,
+        /^feeMode \(from environment\) must be one of fixed, percentile, escalating/,
+        /^rpcUrl \(from command line\) must be an http\(s\) URL/,
+      ]
+    );
+  });
+
+  it("rejects a buy range whose maximum is below its minimum", () => {
+    assertProblems(
+      () => loadConfig({ solBuyMin: 0.5, solBuyMax: 0.1 }),
+      [/^solBuyMax \(0\.1\) must not be lower than solBuyMin \(0\.5\)$/]
+    );
+  });
+
+  it("fails on a config file that is not a mapping", () => {
+    const configFile = writeConfig("bot.config.yaml", "- a\n- b\n");
+    assert.throws(
+      () => loadConfig({ configFile }),
+      (err) =>
+        err instanceof ConfigError &&
+        /top level must be a mapping/.test(err.message)
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getConfig } from "../config";
+import { RunJournal } from "../journal";
+import { beginBuying, beginSelling, resumeProcess } from "../main";
+import { buildPnlReport } from "../pnl";
+import { FakeChainType, createFakeChain } from "./support/fakeChain";
+
+const AMOUNTS = [0.1, 0.2, 0.3];
+
+function tokensOf(chain: FakeChainType) {
+  return chain.wallets.map((wallet) =>
+    chain.ledger.getTokenAmount(wallet.publicKey, chain.mint)
+  );
+}
+
+// Step ids confirmed by the only run of [kind], which must have completed
+function completedSteps(kind: string) {
+  const runs = RunJournal.findAll().filter(
+    (journal) => journal.run.kind === kind
+  );
+  assert.equal(runs.length, 1);
+  assert.equal(runs[0].end?.status, "completed");
+  return runs[0].getConfirmedSteps().map((step) => step.stepId);
+}
+
+async function buy(chain: FakeChainType) {
+  assert.equal(
+    await beginBuying(
+      chain.campaign,
+      chain.wallets,
+      AMOUNTS.slice(0, chain.wallets.length),
+      false
+    ),
+    true
+  );
+}
+
+describe("buying", () => {
+  it("funds every wallet from the main wallet and buys with each", async () => {
+    const chain = await createFakeChain(3);
+    await buy(chain);
+
+    for (const tokens of tokensOf(chain)) {
+      assert.ok(tokens > BigInt(0));
+    }
+    // Each wallet spends half of what it holds above the rent reserve
+    const { solRent } = getConfig();
+    chain.wallets.forEach((wallet, index) => {
+      const left = chain.ledger.getLamports(wallet.publicKey);
+      assert.ok(left < ((AMOUNTS[index] + solRent) / 2) * LAMPORTS_PER_SOL);
+      assert.ok(left > solRent * LAMPORTS_PER_SOL);
+    });
+    assert.ok(
+      chain.ledger.getLamports(chain.owner.publicKey) < 9.4 * LAMPORTS_PER_SOL
+    );
+
+    const steps = completedSteps("buy");
+    for (const wallet of chain.wallets) {
+      assert.ok(steps.includes(`fund:${wallet.publicKey}`));
+      assert.ok(steps.includes(`buy:${wallet.publicKey}`));
+    }
+  });
+
+  it("continues an interrupted run on resume without funding twice", async () => {
+    const chain = await createFakeChain(3, 10, { taskRetries: 0 });
+    // Funding lands, then every buy is broadcast but never lands
+    chain.ledger.onTransaction = () => {
+      chain.ledger.dropTransactions = Number.MAX_SAFE_INTEGER;
+    };
+    assert.equal(
+      await beginBuying(chain.campaign, chain.wallets, AMOUNTS, false),
+      false
+    );
+    assert.equal(RunJournal.findInterrupted().length, 1);
+    assert.deepEqual(tokensOf(chain), [BigInt(0), BigInt(0), BigInt(0)]);
+    const ownerLamports = chain.ledger.getLamports(chain.owner.publicKey);
+
+    chain.ledger.onTransaction = undefined;
+    chain.ledger.dropTransactions = 0;
+    assert.equal(await resumeProcess(chain.campaign), true);
+
+    assert.equal(RunJournal.findInterrupted().length, 0);
+    assert.equal(
+      chain.ledger.getLamports(chain.owner.publicKey),
+      ownerLamports
+    );
+    for (const tokens of tokensOf(chain)) {
+      assert.ok(tokens > BigInt(0));
+    }
+    const steps = completedSteps("buy");
+    for (const wallet of chain.wallets) {
+      assert.ok(steps.includes(`buy:${wallet.publicKey}`));
+    }
+  });
+});
+
+describe("selling", () => {
+  it("consolidates into the first wallet, sells there and returns the SOL", async () => {
+    const chain = await createFakeChain(3);
+    await buy(chain);
+    const ownerLamports = chain.ledger.getLamports(chain.owner.publicKey);
+
+    assert.equal(
+      await beginSelling(chain.campaign, chain.wallets, {
+        mode: "consolidate",
+      }),
+      true
+    );
+
+    assert.deepEqual(tokensOf(chain), [BigInt(0), BigInt(0), BigInt(0)]);
+    // Every wallet keeps its rent reserve, the collector pays the return fee out of it
+    const rent = getConfig().solRent * LAMPORTS_PER_SOL;
+    const [collector, ...others] = chain.wallets;
+    for (const wallet of others) {
+      assert.ok(
+        Math.abs(chain.ledger.getLamports(wallet.publicKey) - rent) <= 1
+      );
+    }
+    const collectorLamports = chain.ledger.getLamports(collector.publicKey);
+    assert.ok(collectorLamports <= rent && collectorLamports > 0);
+    assert.ok(chain.ledger.getLamports(chain.owner.publicKey) > ownerLamports);
+
+    const steps = completedSteps("sell");
+    for (const wallet of others) {
+      assert.ok(steps.includes(`token:${wallet.publicKey}`));
+      assert.ok(steps.includes(`sol:${wallet.publicKey}`));
+    }
+    assert.ok(steps.includes(`sell:${collector.publicKey}:0`));
+    assert.ok(steps.includes(`return:${collector.publicKey}`));
+  });
+
+  it("sells a share straight from every wallet", async () => {
+    const chain = await createFakeChain(3);
+    await buy(chain);
+    const bought = tokensOf(chain);
+
+    assert.equal(
+      await beginSelling(chain.campaign, chain.wallets, {
+        mode: "direct",
+        percent: 50,
+      }),
+      true
+    );
+
+    tokensOf(chain).forEach((tokens, index) => {
+      const expected = bought[index] / BigInt(2);
+      assert.ok(
+        tokens >= expected - BigInt(1) && tokens <= expected + BigInt(1)
+      );
+    });
+    const steps = completedSteps("sell");
+    for (const wallet of chain.wallets) {
+      assert.ok(steps.includes(`sell:${wallet.publicKey}:0`));
+    }
+  });
+
+  it("sells migrated tokens into their pool and books them as trades", async () => {
+    const chain = await createFakeChain(2);
+    await buy(chain);
+    chain.ledger.completeBondingCurve(chain.mint);
+    const pool = chain.ledger.createPool(
+      chain.mint,
+      100,
+      BigInt(1_000_000_000_000_000)
+    );
+
+    assert.equal(
+      await beginSelling(chain.campaign, chain.wallets, { mode: "direct" }),
+      true
+    );
+
+    assert.deepEqual(tokensOf(chain), [BigInt(0), BigInt(0)]);
+    assert.ok(chain.ledger.getPool(chain.mint)!.solReserves < pool.solReserves);
+
+    const report = await buildPnlReport(
+      chain.owner.publicKey,
+      chain.wallets,
+      chain.campaign.name
+    );
+    for (const wallet of chain.wallets) {
+      const row = report.wallets.find(
+        (row) => row.publicKey === wallet.publicKey
+      )!;
+      assert.ok(row.tokensSold > 0);
+      assert.ok(row.solReceived > 0);
+      assert.equal(row.tokensHeld, 0);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccountMeta, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  buildBuyInstruction,
+  buildCreateInstruction,
+  buildSellInstruction,
+} from "../instructions";
+
+// Fixed keys, the addresses below are derived from them independently of the builders
+const MINT = Keypair.fromSeed(Buffer.alloc(32, 1)).publicKey;
+const USER = Keypair.fromSeed(Buffer.alloc(32, 2)).publicKey;
+
+const PUMP_FUN = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+const GLOBAL = "4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf";
+const FEE_RECIPIENT = "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM";
+const EVENT_AUTHORITY = "Ce6TQqeHC9p8KetsN6JsjHK7UTZk7nasjjnr7XxXp9F1";
+const MINT_AUTHORITY = "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM";
+const METADATA_PROGRAM = "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const ASSOCIATED_TOKEN_PROGRAM = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+const RENT = "SysvarRent111111111111111111111111111111111";
+
+const BONDING_CURVE = "GTSxUuGsx6UyaCAWNjySYx2gLMJr1arNdzcjBnuRoLUV";
+const ASSOCIATED_BONDING_CURVE = "DXYm6e9Ybdf6sNWaSuo8epQcbsX9JzdxKDkDNT4AcdsK";
+const ASSOCIATED_USER = "FpMLM8i6S8LG7qi1kGWa3nKgV16atPNHXnvVhTznogzR";
+const METADATA = "CHsp7S2p7eV58YVpSCsMNb83sGKxnn1ogsCUwqkmtuYQ";
+
+// Account metas as [address, flags], "s" for signer and "w" for writable
+function describeMetas(keys: AccountMeta[]) {
+  return keys.map((key) => [
+    key.pubkey.toBase58(),
+    `${key.isSigner ? "s" : ""}${key.isWritable ? "w" : ""}`,
+  ]);
+}
+
+describe("pump.fun instructions", () => {
+  it("encodes a buy with its discriminator, amount and max SOL cost", () => {
+    const instruction = buildBuyInstruction({
+      mint: MINT,
+      user: USER,
+      associatedUser: new PublicKey(ASSOCIATED_USER),
+      amount: BigInt(1_000_000),
+      maxSolCost: BigInt(50_000_000),
+    });
+
+    assert.equal(instruction.programId.toBase58(), PUMP_FUN);
+    assert.equal(
+      instruction.data.toString("hex"),
+      "66063d1201daebea" + "40420f0000000000" + "80f0fa0200000000"
+    );
+    assert.deepEqual(describeMetas(instruction.keys), [
+      [GLOBAL, ""],
+      [FEE_RECIPIENT, "w"],
+      [MINT.toBase58(), ""],
+      [BONDING_CURVE, "w"],
+      [ASSOCIATED_BONDING_CURVE, "w"],
+      [ASSOCIATED_USER, "w"],
+      [USER.toBase58(), "sw"],
+      [SYSTEM_PROGRAM, ""],
+      [TOKEN_PROGRAM, ""],
+      [RENT, ""],
+      [EVENT_AUTHORITY, ""],
+      [PUMP_FUN, ""],
+    ]);
+  });
+
+  it("encodes a sell with its discriminator, amount and min SOL output", () => {
+    const instruction = buildSellInstruction({
+      mint: MINT,
+      user: USER,
+      associatedUser: new PublicKey(ASSOCIATED_USER),
+      amount: BigInt(1_000_000),
+      minSolOutput: BigInt(25_000_000),
+    });
+
+    assert.equal(instruction.programId.toBase58(), PUMP_FUN);
+    assert.equal(
+      instruction.data.toString("hex"),
+      "33e685a4017f83ad" + "40420f0000000000" + "40787d0100000000"
+    );
+    assert.deepEqual(describeMetas(instruction.keys), [
+      [GLOBAL, ""],
+      [FEE_RECIPIENT, "w"],
+      [MINT.toBase58(), ""],
+      [BONDING_CURVE, "w"],
+      [ASSOCIATED_BONDING_CURVE, "w"],
+      [ASSOCIATED_USER, "w"],
+      [USER.toBase58(), "sw"],
+      [SYSTEM_PROGRAM, ""],
+      [ASSOCIATED_TOKEN_PROGRAM, ""],
+      [TOKEN_PROGRAM, ""],
+      [EVENT_AUTHORITY, ""],
+      [PUMP_FUN, ""],
+    ]);
+  });
+
+  it("encodes a create with its discriminator and borsh strings", () => {
+    const instruction = buildCreateInstruction({
+      mint: MINT,
+      user: USER,
+      name: "Test",
+      symbol: "TST",
+      uri: "ipfs://t",
+    });
+
+    assert.equal(instruction.programId.toBase58(), PUMP_FUN);
+    assert.equal(
+      instruction.data.toString("hex"),
+      "181ec828051c0777" +
+        "04000000" +
+        Buffer.from("Test").toString("hex") +
+        "03000000" +
+        Buffer.from("TST").toString("hex") +
+        "08000000" +
+        Buffer.from("ipfs://t").toString("hex")
+    );
+    assert.deepEqual(describeMetas(instruction.keys), [
+      [MINT.toBase58(), "sw"],
+      [MINT_AUTHORITY, ""],
+      [BONDING_CURVE, "w"],
+      [ASSOCIATED_BONDING_CURVE, "w"],
+      [GLOBAL, ""],
+      [METADATA_PROGRAM, ""],
+      [METADATA, "w"],
+      [USER.toBase58(), "sw"],
+      [SYSTEM_PROGRAM, ""],
+      [TOKEN_PROGRAM, ""],
+      [ASSOCIATED_TOKEN_PROGRAM, ""],
+      [RENT, ""],
+      [EVENT_AUTHORITY, ""],
+      [PUMP_FUN, ""],
+    ]);
+  });
+});
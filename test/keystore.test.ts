@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  KeystoreLockedError,
+  decryptKeystore,
+  disablePassphrasePrompt,
+  encryptKeystore,
+  isKeystore,
+  lockKeystore,
+  readSecureFile,
+  unlockKeystore,
+  writeSecureFile,
+} from "../keystore";
+import {
+  generateSolanaKeypair,
+  setWalletsFile,
+  storeWalletsToFile,
+} from "../utils";
+
+// A prompt would wait for input forever
+disablePassphrasePrompt();
+
+function createDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pump-keystore-"));
+  process.once("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+describe("keystore", () => {
+  beforeEach(() => lockKeystore());
+
+  it("decrypts what it encrypted with the same passphrase", () => {
+    const keystore = encryptKeystore("secret keys", "correct horse");
+    assert.ok(isKeystore(keystore));
+    assert.ok(!keystore.ciphertext.includes("secret"));
+    assert.equal(decryptKeystore(keystore, "correct horse"), "secret keys");
+  });
+
+  it("refuses a wrong passphrase and a tampered ciphertext", () => {
+    const keystore = encryptKeystore("secret keys", "correct horse");
+    assert.throws(
+      () => decryptKeystore(keystore, "wrong horse"),
+      /Wrong passphrase/
+    );
+    assert.throws(
+      () =>
+        decryptKeystore(
+          { ...keystore, ciphertext: "A" + keystore.ciphertext.slice(1) },
+          "correct horse"
+        ),
+      /Wrong passphrase/
+    );
+  });
+
+  it("tells a keystore from plaintext wallets and partial shapes", () => {
+    const keystore = encryptKeystore("[]", "correct horse");
+    assert.equal(isKeystore([{ publicKey: "a", privateKey: "b" }]), false);
+    assert.equal(isKeystore(null), false);
+    assert.equal(isKeystore({ version: 1, ciphertext: "abc" }), false);
+    assert.equal(isKeystore({ ...keystore, mac: undefined }), false);
+  });
+
+  it("round trips a file and forgets a passphrase that failed to open it", async () => {
+    const file = path.join(createDir(), "wallets.json");
+    const wallets = [generateSolanaKeypair(), generateSolanaKeypair()];
+    unlockKeystore("correct horse");
+    await writeSecureFile(file, wallets);
+
+    assert.ok(isKeystore(JSON.parse(fs.readFileSync(file, "utf8"))));
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    assert.deepEqual(fs.readdirSync(path.dirname(file)), ["wallets.json"]);
+    assert.deepEqual(await readSecureFile(file), wallets);
+
+    unlockKeystore("wrong horse");
+    await assert.rejects(readSecureFile(file), /Wrong passphrase/);
+    await assert.rejects(readSecureFile(file), KeystoreLockedError);
+  });
+
+  it("fails to store wallets without a passphrase instead of dropping them", async () => {
+    const file = path.join(createDir(), "wallets.json");
+    setWalletsFile(file);
+
+    await assert.rejects(
+      storeWalletsToFile([generateSolanaKeypair()]),
+      KeystoreLockedError
+    );
+    assert.equal(fs.existsSync(file), false);
+  });
+});
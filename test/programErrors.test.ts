@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  CurveCompleteError,
+  InsufficientFundsError,
+  ProgramError,
+  SlippageExceededError,
+  decodeProgramError,
+} from "../programErrors";
+
+const PUMP_FUN = new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P");
+const PUMP_SWAP = new PublicKey("pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA");
+
+// Programs of a trade: compute unit limit and price, then the swap
+const PUMP_FUN_TRADE = [
+  ComputeBudgetProgram.programId,
+  ComputeBudgetProgram.programId,
+  PUMP_FUN,
+];
+const PUMP_SWAP_TRADE = [
+  ComputeBudgetProgram.programId,
+  ComputeBudgetProgram.programId,
+  PUMP_SWAP,
+];
+
+describe("program errors", () => {
+  it("maps pump.fun slippage and complete curve codes to typed errors", () => {
+    const slippage = decodeProgramError(
+      { InstructionError: [2, { Custom: 6003 }] },
+      [],
+      PUMP_FUN_TRADE
+    );
+    assert.ok(slippage instanceof SlippageExceededError);
+    assert.equal(slippage.code, 6003);
+
+    const complete = decodeProgramError(
+      { InstructionError: [2, { Custom: 6005 }] },
+      [],
+      PUMP_FUN_TRADE
+    );
+    assert.ok(complete instanceof CurveCompleteError);
+  });
+
+  it("matches the error name pump.fun logs", () => {
+    const error = decodeProgramError(
+      { InstructionError: [2, { Custom: 6002 }] },
+      [
+        "Program log: AnchorError occurred. Error Code: TooMuchSolRequired. Error Number: 6002.",
+      ],
+      PUMP_FUN_TRADE
+    );
+    assert.ok(error instanceof SlippageExceededError);
+  });
+
+  it("leaves the same codes from another program unmapped", () => {
+    const error = decodeProgramError(
+      { InstructionError: [2, { Custom: 6003 }] },
+      [],
+      PUMP_SWAP_TRADE
+    );
+    assert.ok(error instanceof ProgramError);
+    assert.ok(!(error instanceof SlippageExceededError));
+    assert.equal(error.kind, "Unknown");
+    assert.equal(error.code, 6003);
+  });
+
+  it("reports a lack of funds from the transaction error or the logs", () => {
+    assert.ok(
+      decodeProgramError(
+        "InsufficientFundsForFee",
+        [],
+        PUMP_FUN_TRADE
+      ) instanceof InsufficientFundsError
+    );
+    assert.ok(
+      decodeProgramError(
+        { InstructionError: [0, { Custom: 1 }] },
+        ["Transfer: insufficient lamports 10, need 20"],
+        [SystemProgram.programId]
+      ) instanceof InsufficientFundsError
+    );
+  });
+
+  it("leaves failures no program reported to be retried", () => {
+    assert.equal(
+      decodeProgramError("BlockhashNotFound", [], PUMP_FUN_TRADE),
+      undefined
+    );
+    assert.equal(
+      decodeProgramError(
+        { InstructionError: [2, "ProgramFailedToComplete"] },
+        [],
+        PUMP_FUN_TRADE
+      ),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import {
+  AccountInfo,
+  AccountMeta,
+  Connection,
+  Keypair,
+  PublicKey,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { findDexPool, getDexProgramIds } from "../dex";
+import { getCanonicalPoolAddress, pumpSwapAdapter } from "../pumpSwap";
+import { setConnection } from "../utils";
+
+// Fixed keys, the addresses below are derived from them independently of the adapter
+const MINT = Keypair.fromSeed(Buffer.alloc(32, 1)).publicKey;
+const USER = Keypair.fromSeed(Buffer.alloc(32, 2)).publicKey;
+const COIN_CREATOR = Keypair.fromSeed(Buffer.alloc(32, 3)).publicKey;
+const PROTOCOL_FEE_RECIPIENT = Keypair.fromSeed(Buffer.alloc(32, 4)).publicKey;
+const BASE_VAULT = Keypair.fromSeed(Buffer.alloc(32, 5)).publicKey;
+const QUOTE_VAULT = Keypair.fromSeed(Buffer.alloc(32, 6)).publicKey;
+
+const PUMP_SWAP = "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA";
+const PUMP_FEE = "pfeeUxB6jkeY1Hxd7CsFCAjcbHA9rWtchMGdZ6VojVZ";
+const GLOBAL_CONFIG = "ADyA8hdefvWN2dbGGWFotbzWxrAvLW83WG6QCVXvJKqw";
+const EVENT_AUTHORITY = "GS4CU59F31iL7aR2Q8zVS8DRrcRnXX1yjQ66TqNVQnaR";
+const FEE_CONFIG = "5PHirr8joyTMp9JMm6nW7hNDVyEYdkzDqazxPD7RaTjx";
+const WSOL = "So11111111111111111111111111111111111111112";
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const ASSOCIATED_TOKEN_PROGRAM = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+
+const POOL_AUTHORITY = "3my5Cp4z7RM4r9VAne3wKWxzpaRW44sEyDYgtCetMBMb";
+const POOL = "7EfiyCFKwxoxjKXbYCRaTvHafpoMhvbymVUrSbH3L9P2";
+const USER_TOKENS = "FpMLM8i6S8LG7qi1kGWa3nKgV16atPNHXnvVhTznogzR";
+const USER_WSOL = "HAVBuXWTeBuLPzkPrDYhmc4CkFB7xCRLLhEeBHpccn5W";
+const PROTOCOL_FEE_RECIPIENT_WSOL =
+  "GWq4Tm57y4ZuxdBKjUo97Qg9vJdTPx2gCkNELDaLhGqS";
+const COIN_CREATOR_VAULT_AUTHORITY =
+  "EKoeJvag9N1tUpVkBCp5Bpoa3gJ4hWUmYUmHjYxA3YpZ";
+const COIN_CREATOR_VAULT = "GubZ42CpFrGYWhtL5Qf44XHcmjqwjL2vPxxtZy7W2heW";
+
+// 100 SOL against 200M tokens, fees 0.20 % LP, 0.05 % protocol and 0.05 % coin creator
+const SOL_RESERVES = BigInt(100_000_000_000);
+const TOKEN_RESERVES = BigInt(200_000_000_000_000);
+
+function account(owner: PublicKey | string, data: Buffer): AccountInfo<Buffer> {
+  return {
+    owner: new PublicKey(owner),
+    data,
+    lamports: 1_000_000,
+    executable: false,
+    rentEpoch: 0,
+  };
+}
+
+// Pool account as PumpSwap stores it: discriminator, bump, index, keys, lp supply, coin creator
+function poolData(coinCreator: PublicKey) {
+  return Buffer.concat([
+    Buffer.from("f19a6d0411b16dbc", "hex"),
+    Buffer.from([255, 0, 0]),
+    new PublicKey(POOL_AUTHORITY).toBuffer(),
+    MINT.toBuffer(),
+    NATIVE_MINT.toBuffer(),
+    Keypair.fromSeed(Buffer.alloc(32, 7)).publicKey.toBuffer(),
+    BASE_VAULT.toBuffer(),
+    QUOTE_VAULT.toBuffer(),
+    Buffer.alloc(8),
+    coinCreator.toBuffer(),
+  ]);
+}
+
+// Global config: discriminator, admin, lp and protocol fee, flags, 8 recipients, creator fee
+function globalConfigData() {
+  const fees = Buffer.alloc(17);
+  fees.writeBigUInt64LE(BigInt(20), 0);
+  fees.writeBigUInt64LE(BigInt(5), 8);
+  const creatorFee = Buffer.alloc(8);
+  creatorFee.writeBigUInt64LE(BigInt(5));
+  return Buffer.concat([
+    Buffer.from("95089ccaa0fcb0d9", "hex"),
+    Buffer.alloc(32),
+    fees,
+    Buffer.alloc(32),
+    PROTOCOL_FEE_RECIPIENT.toBuffer(),
+    Buffer.alloc(6 * 32),
+    creatorFee,
+  ]);
+}
+
+function tokenAccountData(mint: PublicKey, owner: string, amount: bigint) {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner: new PublicKey(owner),
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount: BigInt(0),
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return data;
+}
+
+// Serve [accounts] to the adapter the way getMultipleAccountsInfo does
+function useAccounts(accounts: Record<string, AccountInfo<Buffer>>) {
+  setConnection({
+    getMultipleAccountsInfo: async (addresses: PublicKey[]) =>
+      addresses.map((address) => accounts[address.toBase58()] ?? null),
+  } as unknown as Connection);
+}
+
+function chainAccounts(coinCreator = COIN_CREATOR) {
+  return {
+    [POOL]: account(PUMP_SWAP, poolData(coinCreator)),
+    [GLOBAL_CONFIG]: account(PUMP_SWAP, globalConfigData()),
+    [BASE_VAULT.toBase58()]: account(
+      TOKEN_PROGRAM_ID,
+      tokenAccountData(MINT, POOL, TOKEN_RESERVES)
+    ),
+    [QUOTE_VAULT.toBase58()]: account(
+      TOKEN_PROGRAM_ID,
+      tokenAccountData(NATIVE_MINT, POOL, SOL_RESERVES)
+    ),
+  };
+}
+
+// Account metas as [address, flags], "s" for signer and "w" for writable
+function describeMetas(keys: AccountMeta[]) {
+  return keys.map((key) => [
+    key.pubkey.toBase58(),
+    `${key.isSigner ? "s" : ""}${key.isWritable ? "w" : ""}`,
+  ]);
+}
+
+describe("PumpSwap adapter", () => {
+  before(() => useAccounts(chainAccounts()));
+
+  it("derives the pool pump.fun opens on migration", () => {
+    assert.equal(getCanonicalPoolAddress(MINT).toBase58(), POOL);
+  });
+
+  it("is registered by default", async () => {
+    assert.deepEqual(getDexProgramIds(), [PUMP_SWAP]);
+    const found = await findDexPool(MINT);
+    assert.equal(found?.adapter, pumpSwapAdapter);
+  });
+
+  it("reads reserves from the pool vaults and fees from the global config", async () => {
+    assert.deepEqual(await pumpSwapAdapter.findPool(MINT), {
+      address: new PublicKey(POOL),
+      mint: MINT,
+      solReserves: SOL_RESERVES,
+      tokenReserves: TOKEN_RESERVES,
+      feeBasisPoints: 30,
+    });
+  });
+
+  it("leaves the creator fee out for pools without a coin creator", async () => {
+    useAccounts(chainAccounts(PublicKey.default));
+    const pool = await pumpSwapAdapter.findPool(MINT);
+    useAccounts(chainAccounts());
+    assert.equal(pool?.feeBasisPoints, 25);
+  });
+
+  it("finds no pool for a mint that has not migrated or a foreign account", async () => {
+    const other = Keypair.fromSeed(Buffer.alloc(32, 9)).publicKey;
+    assert.equal(await pumpSwapAdapter.findPool(other), undefined);
+
+    useAccounts({
+      ...chainAccounts(),
+      [POOL]: account(SYSTEM_PROGRAM, poolData(COIN_CREATOR)),
+    });
+    const pool = await pumpSwapAdapter.findPool(MINT);
+    useAccounts(chainAccounts());
+    assert.equal(pool, undefined);
+  });
+
+  it("quotes a sell on the constant product minus 0.30 % of the output", async () => {
+    const pool = (await pumpSwapAdapter.findPool(MINT))!;
+    // 1M tokens: 1e12 * 1e11 / (2e14 + 1e12) = 497512437 lamports gross, fee 1492537
+    assert.deepEqual(
+      pumpSwapAdapter.getSellQuote(pool, BigInt(1_000_000_000_000)),
+      {
+        tokenIn: BigInt(1_000_000_000_000),
+        solOut: BigInt(496_019_900),
+        fee: BigInt(1_492_537),
+      }
+    );
+  });
+
+  it("wraps the sell in opening and closing the wrapped SOL account", async () => {
+    const pool = (await pumpSwapAdapter.findPool(MINT))!;
+    const [open, sell, close] = await pumpSwapAdapter.buildSellInstructions(
+      pool,
+      USER,
+      BigInt(1_000_000),
+      BigInt(25_000_000)
+    );
+
+    assert.equal(open.programId.toBase58(), ASSOCIATED_TOKEN_PROGRAM);
+    assert.deepEqual(describeMetas(open.keys).slice(0, 4), [
+      [USER.toBase58(), "sw"],
+      [USER_WSOL, "w"],
+      [USER.toBase58(), ""],
+      [WSOL, ""],
+    ]);
+    assert.equal(close.programId.toBase58(), TOKEN_PROGRAM);
+    assert.deepEqual(describeMetas(close.keys), [
+      [USER_WSOL, "w"],
+      [USER.toBase58(), "w"],
+      [USER.toBase58(), "s"],
+    ]);
+
+    assert.equal(sell.programId.toBase58(), PUMP_SWAP);
+    assert.equal(
+      sell.data.toString("hex"),
+      "33e685a4017f83ad" + "40420f0000000000" + "40787d0100000000"
+    );
+    assert.deepEqual(describeMetas(sell.keys), [
+      [POOL, "w"],
+      [USER.toBase58(), "sw"],
+      [GLOBAL_CONFIG, ""],
+      [MINT.toBase58(), ""],
+      [WSOL, ""],
+      [USER_TOKENS, "w"],
+      [USER_WSOL, "w"],
+      [BASE_VAULT.toBase58(), "w"],
+      [QUOTE_VAULT.toBase58(), "w"],
+      [PROTOCOL_FEE_RECIPIENT.toBase58(), ""],
+      [PROTOCOL_FEE_RECIPIENT_WSOL, "w"],
+      [TOKEN_PROGRAM, ""],
+      [TOKEN_PROGRAM, ""],
+      [SYSTEM_PROGRAM, ""],
+      [ASSOCIATED_TOKEN_PROGRAM, ""],
+      [EVENT_AUTHORITY, ""],
+      [PUMP_SWAP, ""],
+      [COIN_CREATOR_VAULT, "w"],
+      [COIN_CREATOR_VAULT_AUTHORITY, ""],
+      [FEE_CONFIG, ""],
+      [PUMP_FEE, ""],
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  addSlippage,
+  getBuyCost,
+  getBuyQuote,
+  getPriceImpact,
+  getSellQuote,
+  subtractSlippage,
+} from "../quote";
+
+// Small reserves keep the products below checkable by hand: k = 1e6 * 1e9 = 1e15
+const RESERVES = {
+  virtualSolReserves: BigInt(1_000_000),
+  virtualTokenReserves: BigInt(1_000_000_000),
+  realTokenReserves: BigInt(800_000_000),
+};
+
+const NOTHING = {
+  solIn: BigInt(0),
+  solCost: BigInt(0),
+  fee: BigInt(0),
+  tokenOut: BigInt(0),
+};
+
+describe("constant-product quotes", () => {
+  it("splits a buy into the curve cost and the 1 % fee", () => {
+    // 10100 * 10000 / 10100 = 10000 moves the curve, fee 100.
+    // 1e15 / 1010000 = 990099009 (floored) + 1 token left, so 1e9 - 990099010 out.
+    assert.deepEqual(getBuyQuote(RESERVES, BigInt(10_100)), {
+      solIn: BigInt(10_100),
+      solCost: BigInt(10_000),
+      fee: BigInt(100),
+      tokenOut: BigInt(9_900_990),
+    });
+  });
+
+  it("never spends more than asked when the fee does not divide evenly", () => {
+    // 10000 * 10000 / 10100 = 9900 (floored), fee 99, 9999 spent in total
+    const quote = getBuyQuote(RESERVES, BigInt(10_000));
+    assert.equal(quote.solCost, BigInt(9_900));
+    assert.equal(quote.fee, BigInt(99));
+    assert.equal(quote.solIn, BigInt(9_999));
+    assert.equal(quote.tokenOut, BigInt(9_802_950));
+  });
+
+  it("caps a buy larger than the curve at its real token reserves", () => {
+    // 9900990 lamports would take 908265212 tokens, more than the 8e8 left to sell
+    const quote = getBuyQuote(RESERVES, BigInt(10_000_000));
+    assert.equal(quote.solCost, BigInt(9_900_990));
+    assert.equal(quote.tokenOut, RESERVES.realTokenReserves);
+  });
+
+  it("quotes nothing for a zero or negative buy", () => {
+    assert.deepEqual(getBuyQuote(RESERVES, BigInt(0)), NOTHING);
+    assert.deepEqual(getBuyQuote(RESERVES, BigInt(-5)), NOTHING);
+  });
+
+  it("prices an exact token amount as the program does", () => {
+    // 9900990 * 1e6 / (1e9 - 9900990) = 9999 (floored) + 1, fee 1 % of 10000
+    assert.deepEqual(getBuyCost(RESERVES, BigInt(9_900_990)), {
+      solIn: BigInt(10_100),
+      solCost: BigInt(10_000),
+      fee: BigInt(100),
+      tokenOut: BigInt(9_900_990),
+    });
+    assert.deepEqual(getBuyCost(RESERVES, BigInt(0)), NOTHING);
+  });
+
+  it("refuses to price more tokens than the curve holds", () => {
+    assert.throws(
+      () => getBuyCost(RESERVES, RESERVES.virtualTokenReserves),
+      /more tokens than the curve holds/
+    );
+  });
+
+  it("takes the 1 % fee from the SOL a sell returns", () => {
+    // 1e7 * 1e6 / (1e9 + 1e7) = 9900 (floored), fee 99
+    assert.deepEqual(getSellQuote(RESERVES, BigInt(10_000_000)), {
+      tokenIn: BigInt(10_000_000),
+      solOut: BigInt(9_801),
+      fee: BigInt(99),
+    });
+    assert.deepEqual(getSellQuote(RESERVES, BigInt(0)), {
+      tokenIn: BigInt(0),
+      solOut: BigInt(0),
+      fee: BigInt(0),
+    });
+  });
+
+  it("measures price impact against the spot price without the fee", () => {
+    // 10000 lamports for 9900990 tokens, and 9900 lamports for 1e7 tokens, are both
+    // 1 % off the spot price of 1 lamport per 1000 tokens
+    assert.equal(getPriceImpact(RESERVES, "buy", BigInt(10_000)), 1);
+    assert.equal(getPriceImpact(RESERVES, "sell", BigInt(10_000_000)), 1);
+    assert.equal(getPriceImpact(RESERVES, "sell", BigInt(0)), 0);
+  });
+
+  it("moves limits by the slippage percentage", () => {
+    assert.equal(subtractSlippage(BigInt(10_000), 5), BigInt(9_500));
+    assert.equal(addSlippage(BigInt(10_000), 2.5), BigInt(10_250));
+  });
+});
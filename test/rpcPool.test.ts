@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import bs58 from "bs58";
+import { loadConfig } from "../config";
+import { RpcPool, createRpcPool } from "../rpcPool";
+import { StandInRpcType, startStandInRpc } from "./support/rpcStandIn";
+
+// Slots the stand-ins report, so every answer tells which endpoint served it
+const FLAKY_SLOT = 1_000;
+const HEALTHY_SLOT = 1_001;
+const CALLS = 8;
+
+// Wire transaction with one signature, the stand-ins answer sendTransaction with it
+const SIGNATURE = Buffer.alloc(64, 9);
+const RAW_TRANSACTION = Buffer.concat([
+  Buffer.from([1]),
+  SIGNATURE,
+  Buffer.from([0, 1, 2]),
+]);
+
+function getSlot(pool: RpcPool, url: string) {
+  return pool.fetch(url, {
+    method: "POST",
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getSlot" }),
+  });
+}
+
+describe("RPC pool failover", () => {
+  let flaky: StandInRpcType;
+  let healthy: StandInRpcType;
+  let pool: RpcPool;
+
+  // Answered slots of [CALLS] getSlot calls made through the pool
+  const slotsServed = async () => {
+    const slots = [];
+    for (let call = 0; call < CALLS; call++) {
+      const response = await getSlot(pool, flaky.url);
+      assert.equal(response.status, 200);
+      slots.push((await response.json()).result);
+    }
+    return slots;
+  };
+
+  before(async () => {
+    // Rate limiting would only slow the calls down here
+    loadConfig({ rpcRate: 0 });
+    flaky = await startStandInRpc({ slot: FLAKY_SLOT });
+    healthy = await startStandInRpc({ slot: HEALTHY_SLOT });
+  });
+
+  beforeEach(() => {
+    flaky.setMode("ok");
+    healthy.setMode("ok");
+    pool = createRpcPool([
+      { url: flaky.url, weight: 1 },
+      { url: healthy.url, weight: 1 },
+    ]);
+  });
+
+  after(async () => {
+    await flaky.close();
+    await healthy.close();
+  });
+
+  it("moves on from an endpoint answering 429", async () => {
+    flaky.setMode("rateLimited");
+    assert.deepEqual(await slotsServed(), new Array(CALLS).fill(HEALTHY_SLOT));
+  });
+
+  it("moves on from an endpoint answering 5xx", async () => {
+    flaky.setMode("serverError");
+    assert.deepEqual(await slotsServed(), new Array(CALLS).fill(HEALTHY_SLOT));
+  });
+
+  it("passes over an endpoint lagging behind the others", async () => {
+    flaky.setMode("stale");
+    await pool.checkHealth();
+    assert.deepEqual(await slotsServed(), new Array(CALLS).fill(HEALTHY_SLOT));
+  });
+
+  it("lands a broadcast through one endpoint while the other fails", async () => {
+    flaky.setMode("serverError");
+    healthy.methods.length = 0;
+    assert.equal(
+      await pool.broadcast(RAW_TRANSACTION, 2),
+      bs58.encode(SIGNATURE)
+    );
+    assert.deepEqual(healthy.methods, ["sendTransaction"]);
+  });
+
+  it("rejects a broadcast only once every endpoint failed", async () => {
+    flaky.setMode("serverError");
+    healthy.setMode("rateLimited");
+    await assert.rejects(pool.broadcast(RAW_TRANSACTION, 2), /answered HTTP/);
+  });
+
+  it("hands back the last 429 once every endpoint refused", async () => {
+    flaky.setMode("rateLimited");
+    healthy.setMode("rateLimited");
+    assert.equal((await getSlot(pool, flaky.url)).status, 429);
+  });
+});
+
+describe("RPC stand-in", () => {
+  it("answers an unreadable body with a JSON-RPC parse error", async () => {
+    const standIn = await startStandInRpc();
+    const response = await fetch(standIn.url, {
+      method: "POST",
+      body: "{",
+    });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, -32700);
+    await standIn.close();
+  });
+
+  it("answers 500 when its upstream is unreachable", async () => {
+    const standIn = await startStandInRpc({ upstream: "http://127.0.0.1:9" });
+    const response = await fetch(standIn.url, {
+      method: "POST",
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getBalance" }),
+    });
+    assert.equal(response.status, 500);
+    assert.equal((await response.json()).error.code, -32603);
+    await standIn.close();
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { loadConfig } from "../config";
+import { FakeLedger } from "../ledger";
+import { InsufficientFundsError } from "../programErrors";
+import { sendTransaction } from "../sender";
+import { setPaperTrading } from "../utils";
+
+const RECIPIENT = Keypair.fromSeed(Buffer.alloc(32, 1)).publicKey;
+
+// Ledger counting the simulations it runs
+function createLedger() {
+  const ledger = new FakeLedger();
+  const simulate = ledger.simulateTransaction.bind(ledger);
+  let simulations = 0;
+  ledger.simulateTransaction = (transaction, config) => {
+    simulations++;
+    return simulate(transaction, config);
+  };
+  return { ledger, simulations: () => simulations };
+}
+
+function transfer(payer: Keypair, lamports: number) {
+  return SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: RECIPIENT,
+    lamports,
+  });
+}
+
+describe("sender", () => {
+  beforeEach(() => {
+    // 1000 microLamports per unit, so the priority fee is a few lamports per send
+    loadConfig({ feeMode: "fixed", priorityFee: 1000 });
+    setPaperTrading(true);
+  });
+
+  it("sizes the compute budget from the simulation it checks the send with", async () => {
+    const { ledger, simulations } = createLedger();
+    const payer = Keypair.generate();
+    ledger.airdrop(payer.publicKey, 1);
+
+    const result = await sendTransaction(ledger.asConnection(), {
+      payer,
+      instructions: [transfer(payer, LAMPORTS_PER_SOL / 2)],
+    });
+    assert.equal(result.error, undefined);
+    assert.equal(simulations(), 1);
+    assert.equal(ledger.getLamports(RECIPIENT), LAMPORTS_PER_SOL / 2);
+  });
+
+  it("refuses a send whose payer cannot cover the priority fee on top", async () => {
+    const { ledger } = createLedger();
+    const payer = Keypair.generate();
+    ledger.airdrop(payer.publicKey, 1);
+
+    // Leaves exactly the signature fee, which is all the simulation charges
+    const result = await sendTransaction(ledger.asConnection(), {
+      payer,
+      instructions: [transfer(payer, LAMPORTS_PER_SOL - 5000)],
+    });
+    assert.equal(result.error, "simulation");
+    assert.ok(result.programError instanceof InsufficientFundsError);
+    assert.equal(result.signature, undefined);
+    assert.equal(ledger.getLamports(payer.publicKey), LAMPORTS_PER_SOL);
+  });
+
+  it("leaves failures no program reported to be retried", async () => {
+    const { ledger } = createLedger();
+    const payer = Keypair.generate();
+    ledger.airdrop(payer.publicKey, 1);
+    ledger.simulateTransaction = async (_: VersionedTransaction) => ({
+      context: { slot: 0 },
+      value: {
+        err: "BlockhashNotFound",
+        logs: [],
+        unitsConsumed: 0,
+        accounts: null,
+      },
+    });
+
+    const result = await sendTransaction(ledger.asConnection(), {
+      payer,
+      instructions: [transfer(payer, LAMPORTS_PER_SOL / 2)],
+    });
+    assert.equal(result.error, "simulation");
+    assert.equal(result.programError, undefined);
+    assert.match(result.message ?? "", /BlockhashNotFound/);
+  });
+});
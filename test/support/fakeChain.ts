@@ -0,0 +1,137 @@
+import { Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import bs58 from "bs58";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CampaignType, getDefaultCampaign } from "../../campaign";
+import { ConfigOverridesType, loadConfig } from "../../config";
+import { DexAdapterType, setDexAdapters } from "../../dex";
+import { setJournalFile } from "../../journal";
+import { unlockKeystore } from "../../keystore";
+import { FAKE_AMM_PROGRAM, FakeLedger } from "../../ledger";
+import { getSellQuote } from "../../quote";
+import {
+  CoinDataSourceType,
+  WalletInfoType,
+  generateSolanaKeypair,
+  setCoinDataSource,
+  setConnection,
+  setPaperTrading,
+  setWalletsFile,
+  storeWalletsToFile,
+} from "../../utils";
+
+export type FakeChainType = {
+  ledger: FakeLedger;
+  owner: Keypair;
+  mint: PublicKey;
+  campaign: CampaignType;
+  wallets: WalletInfoType[];
+  dir: string; // holds the journal, wallets and paused state of this chain
+};
+
+// Point the bot at a fresh FakeLedger with a launched bonding curve, a main wallet holding
+// [ownerSol] and [walletCount] stored wallets. Journal and wallets live in a temporary directory.
+export async function createFakeChain(
+  walletCount: number,
+  ownerSol = 10,
+  overrides: ConfigOverridesType = {}
+): Promise<FakeChainType> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pump-test-"));
+  process.once("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+  const ledger = new FakeLedger();
+  const owner = Keypair.generate();
+  const mint = Keypair.generate().publicKey;
+  ledger.createBondingCurve(mint);
+  ledger.airdrop(owner.publicKey, ownerSol);
+
+  loadConfig({
+    privateKey: bs58.encode(owner.secretKey),
+    tokenMint: mint.toBase58(),
+    pauseOnInterruption: false,
+    ...overrides,
+  });
+  setConnection(ledger.asConnection());
+  setCoinDataSource(createFakeCoinDataSource(ledger));
+  setDexAdapters([createFakeDexAdapter(ledger)]);
+  // Paper mode skips the waits meant for a real cluster
+  setPaperTrading(true);
+
+  setJournalFile(path.join(dir, "journal.jsonl"));
+  setWalletsFile(path.join(dir, "wallets.json"));
+  unlockKeystore("test");
+  const wallets = Array.from({ length: walletCount }, generateSolanaKeypair);
+  await storeWalletsToFile(wallets);
+
+  return {
+    ledger,
+    owner,
+    mint,
+    campaign: {
+      ...getDefaultCampaign(),
+      stateFile: path.join(dir, "paused.json"),
+    },
+    wallets,
+    dir,
+  };
+}
+
+// Serve bonding curves from [ledger] and a fixed SOL price, with no network access
+export function createFakeCoinDataSource(
+  ledger: FakeLedger,
+  solPrice = 150
+): CoinDataSourceType {
+  return {
+    getBondingCurve: (mint) => ledger.fetchBondingCurve(mint),
+    getSolPrice: async () => solPrice,
+  };
+}
+
+// Sell migrated tokens into the fake AMM pools of [ledger]
+export function createFakeDexAdapter(ledger: FakeLedger): DexAdapterType {
+  return {
+    name: "Fake AMM",
+    programId: new PublicKey(FAKE_AMM_PROGRAM),
+    findPool: async (mint) => ledger.getPool(mint),
+    getSellQuote: (pool, tokenIn) =>
+      getSellQuote(
+        {
+          virtualSolReserves: pool.solReserves,
+          virtualTokenReserves: pool.tokenReserves,
+          realTokenReserves: pool.tokenReserves,
+        },
+        tokenIn,
+        pool.feeBasisPoints
+      ),
+    buildSellInstructions: async (pool, user, tokenIn, minSolOutput) => {
+      const data = Buffer.alloc(16);
+      data.writeBigUInt64LE(tokenIn, 0);
+      data.writeBigUInt64LE(minSolOutput, 8);
+      return [
+        new TransactionInstruction({
+          programId: new PublicKey(FAKE_AMM_PROGRAM),
+          keys: [
+            { pubkey: pool.address, isSigner: false, isWritable: true },
+            { pubkey: user, isSigner: true, isWritable: true },
+            {
+              pubkey: getAssociatedTokenAddressSync(pool.mint, user),
+              isSigner: false,
+              isWritable: true,
+            },
+            {
+              pubkey: getAssociatedTokenAddressSync(
+                pool.mint,
+                pool.address,
+                true
+              ),
+              isSigner: false,
+              isWritable: true,
+            },
+          ],
+          data,
+        }),
+      ];
+    },
+  };
+}
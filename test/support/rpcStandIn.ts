@@ -0,0 +1,189 @@
+import http from "http";
+import { AddressInfo } from "net";
+import bs58 from "bs58";
+
+// How a stand-in endpoint answers: normally, rate limited, failing, or trailing the chain
+export type StandInModeType = "ok" | "rateLimited" | "serverError" | "stale";
+
+export type StandInRpcType = {
+  url: string;
+  methods: string[]; // JSON-RPC methods received, in order, failed answers included
+  setMode: (mode: StandInModeType) => void;
+  setSlot: (slot: number) => void;
+  close: () => Promise<void>;
+};
+
+export type StandInOptionsType = {
+  mode?: StandInModeType;
+  slot?: number;
+  staleLag?: number; // slots a stale endpoint reports behind [slot]
+  upstream?: string; // RPC that answers the methods the stand-in does not, e.g. a local validator
+};
+
+// One JSON-RPC call, alone or as part of a batch
+type JsonRpcRequestType = {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method: string;
+  params?: unknown[];
+};
+
+const BLOCKHASH = bs58.encode(Buffer.alloc(32, 7));
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequestType {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const { method, params } = value as Record<string, unknown>;
+  return (
+    typeof method === "string" &&
+    (params === undefined || Array.isArray(params))
+  );
+}
+
+// Answer [method] from the stand-in's own state, undefined when it does not know the method
+function answer(method: string, params: unknown[], slot: number) {
+  switch (method) {
+    case "getHealth":
+      return "ok";
+    case "getVersion":
+      return { "solana-core": "stand-in", "feature-set": 0 };
+    case "getSlot":
+    case "getBlockHeight":
+      return slot;
+    case "getLatestBlockhash":
+      return {
+        context: { slot },
+        value: { blockhash: BLOCKHASH, lastValidBlockHeight: slot + 150 },
+      };
+    case "sendTransaction": {
+      if (typeof params[0] !== "string") {
+        throw new Error("sendTransaction needs a base64 encoded transaction");
+      }
+      // The first signature of a wire transaction follows its one byte signature count
+      const raw = Buffer.from(params[0], "base64");
+      return bs58.encode(raw.subarray(1, 65));
+    }
+  }
+}
+
+async function forward(upstream: string, body: string): Promise<unknown> {
+  const response = await fetch(upstream, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+  return await response.json();
+}
+
+function describeError(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Answer with HTTP [status] and a JSON-RPC error of [code], for requests the stand-in cannot serve
+function sendError(
+  response: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(
+    JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } })
+  );
+}
+
+// Start a local HTTP JSON-RPC endpoint whose failures can be switched on and off, to
+// rehearse the failover of the RPC pool without a real node misbehaving
+export function startStandInRpc(
+  options: StandInOptionsType = {}
+): Promise<StandInRpcType> {
+  let mode = options.mode ?? "ok";
+  let slot = options.slot ?? 1_000;
+  const staleLag = options.staleLag ?? 1_000;
+  const methods: string[] = [];
+
+  // Answer the JSON-RPC call or batch [payload] according to the current mode
+  const respond = async (
+    payload: JsonRpcRequestType | JsonRpcRequestType[],
+    response: http.ServerResponse
+  ) => {
+    const calls = Array.isArray(payload) ? payload : [payload];
+    methods.push(...calls.map((call) => call.method));
+
+    if (mode === "rateLimited") {
+      response.writeHead(429, { "Retry-After": "1" });
+      response.end("Too many requests");
+      return;
+    }
+    if (mode === "serverError") {
+      response.writeHead(503);
+      response.end("Service unavailable");
+      return;
+    }
+
+    const reportedSlot = mode === "stale" ? slot - staleLag : slot;
+    const results = await Promise.all(
+      calls.map(async (call) => {
+        const result = answer(call.method, call.params ?? [], reportedSlot);
+        if (result !== undefined) {
+          return { jsonrpc: "2.0", id: call.id, result };
+        }
+        if (options.upstream) {
+          return await forward(options.upstream, JSON.stringify(call));
+        }
+        return {
+          jsonrpc: "2.0",
+          id: call.id,
+          error: {
+            code: -32601,
+            message: `Method not found: ${call.method}`,
+          },
+        };
+      })
+    );
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(Array.isArray(payload) ? results : results[0]));
+  };
+
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", async () => {
+      // An unreadable body or an unreachable upstream must not leave the client hanging
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body || "{}");
+      } catch (err) {
+        sendError(response, 400, -32700, `Parse error: ${describeError(err)}`);
+        return;
+      }
+      const calls = Array.isArray(payload) ? payload : [payload];
+      if (calls.length === 0 || !calls.every(isJsonRpcRequest)) {
+        sendError(response, 400, -32600, "Invalid request");
+        return;
+      }
+      try {
+        await respond(Array.isArray(payload) ? calls : calls[0], response);
+      } catch (err) {
+        if (!response.headersSent) {
+          sendError(response, 500, -32603, describeError(err));
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        methods,
+        setMode: (next) => (mode = next),
+        setSlot: (next) => (slot = next),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
@@ -0,0 +1,118 @@
+import { Logs, PublicKey } from "@solana/web3.js";
+import { BorshEventCoder } from "@coral-xyz/anchor";
+import {
+  BondingCurveStateType,
+  decodeBondingCurve,
+  getBondingCurveAddress,
+} from "./bondingCurve";
+import { PUMP_FUN_IDL } from "./pumpFunIdl";
+import { connection } from "./utils";
+
+const eventCoder = new BorshEventCoder(PUMP_FUN_IDL);
+
+const PROGRAM_DATA = "Program data: ";
+
+// One buy or sell on a pump.fun bonding curve, decoded from its TradeEvent log
+export type TradeEventType = {
+  signature: string;
+  slot: number;
+  side: "buy" | "sell";
+  mint: string;
+  user: string;
+  solAmount: bigint; // lamports moved through the curve, fee excluded
+  tokenAmount: bigint; // raw token units
+  virtualSolReserves: bigint; // curve reserves after the trade
+  virtualTokenReserves: bigint;
+  timestamp: number; // unix seconds
+};
+
+export type TradeStreamHandlersType = {
+  onTrade?: (trade: TradeEventType) => void;
+  onCurve?: (curve: BondingCurveStateType) => void;
+};
+
+export type TradeStreamType = {
+  trades: TradeEventType[]; // every trade seen since the stream opened, oldest first
+  close: () => Promise<void>;
+};
+
+// Decode the pump.fun TradeEvents that the transaction behind [logs] emitted
+export function decodeTradeEvents(logs: Logs, slot: number) {
+  const trades: TradeEventType[] = [];
+  if (logs.err) {
+    return trades;
+  }
+
+  for (const line of logs.logs) {
+    if (!line.startsWith(PROGRAM_DATA)) {
+      continue;
+    }
+    // Other programs log data too, their discriminators do not decode
+    const event = eventCoder.decode(line.slice(PROGRAM_DATA.length));
+    if (!event || event.name !== "TradeEvent") {
+      continue;
+    }
+    const data = event.data as Record<string, any>;
+    trades.push({
+      signature: logs.signature,
+      slot,
+      side: data.is_buy ? "buy" : "sell",
+      mint: data.mint.toBase58(),
+      user: data.user.toBase58(),
+      solAmount: BigInt(data.sol_amount.toString()),
+      tokenAmount: BigInt(data.token_amount.toString()),
+      virtualSolReserves: BigInt(data.virtual_sol_reserves.toString()),
+      virtualTokenReserves: BigInt(data.virtual_token_reserves.toString()),
+      timestamp: Number(data.timestamp.toString()),
+    });
+  }
+  return trades;
+}
+
+// Subscribe to the bonding curve of [mint]: its transaction logs become typed trade
+// events and its account changes decoded curve states, until close is called
+export function openTradeStream(
+  mint: PublicKey | string,
+  handlers: TradeStreamHandlersType = {}
+): TradeStreamType {
+  const mintAddress = new PublicKey(mint);
+  const bondingCurve = getBondingCurveAddress(mintAddress);
+  const trades: TradeEventType[] = [];
+  const seen = new Set<string>();
+
+  const logsSubscription = connection.onLogs(
+    bondingCurve,
+    (logs, context) => {
+      for (const trade of decodeTradeEvents(logs, context.slot)) {
+        // Notifications can repeat after a websocket reconnect
+        const key = `${trade.signature}:${trade.user}:${trade.side}:${trade.tokenAmount}`;
+        if (trade.mint !== mintAddress.toBase58() || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        trades.push(trade);
+        handlers.onTrade?.(trade);
+      }
+    },
+    "confirmed"
+  );
+
+  const curveSubscription = handlers.onCurve
+    ? connection.onAccountChange(
+        bondingCurve,
+        (account) =>
+          handlers.onCurve!(decodeBondingCurve(mintAddress, account.data)),
+        "confirmed"
+      )
+    : undefined;
+
+  return {
+    trades,
+    close: async () => {
+      await connection.removeOnLogsListener(logsSubscription);
+      if (curveSubscription !== undefined) {
+        await connection.removeAccountChangeListener(curveSubscription);
+      }
+    },
+  };
+}
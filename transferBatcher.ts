@@ -0,0 +1,231 @@
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { RunJournal } from "./journal";
+import { assertSent, sendTransaction } from "./sender";
+import { connection } from "./utils";
+
+// Compute units budgeted per instruction when packing, above what they use on mainnet
+const SYSTEM_TRANSFER_UNITS = 300;
+const TOKEN_TRANSFER_UNITS = 6_000;
+const CREATE_ACCOUNT_UNITS = 30_000;
+
+// The sender asks for 1.5 times the simulated units, which must stay under 1.4M
+const MAX_BATCH_UNITS = 900_000;
+
+// One SOL or SPL token transfer, recorded as its own journal step
+export type TransferType =
+  | {
+      kind: "sol";
+      stepId: string;
+      from: Keypair;
+      to: PublicKey;
+      lamports: number;
+    }
+  | {
+      kind: "token";
+      stepId: string;
+      from: Keypair;
+      to: PublicKey; // wallet, its associated token account is created if missing
+      mint: PublicKey;
+      amount: bigint; // raw token units
+      decimals: number;
+    };
+
+export type TransferOutcomeType = {
+  stepId: string;
+  status: "confirmed" | "failed";
+  signature?: string;
+  error?: string;
+};
+
+// Instructions of [transfer], account creation paid by [payer]
+function buildInstructions(transfer: TransferType, payer: Keypair) {
+  if (transfer.kind === "sol") {
+    return [
+      SystemProgram.transfer({
+        fromPubkey: transfer.from.publicKey,
+        toPubkey: transfer.to,
+        lamports: transfer.lamports,
+      }),
+    ];
+  }
+
+  const destination = getAssociatedTokenAddressSync(transfer.mint, transfer.to);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer.publicKey,
+      destination,
+      transfer.to,
+      transfer.mint
+    ),
+    createTransferInstruction(
+      getAssociatedTokenAddressSync(transfer.mint, transfer.from.publicKey),
+      destination,
+      transfer.from.publicKey,
+      transfer.amount
+    ),
+  ];
+}
+
+function getUnits(transfer: TransferType) {
+  return transfer.kind === "sol"
+    ? SYSTEM_TRANSFER_UNITS
+    : CREATE_ACCOUNT_UNITS + TOKEN_TRANSFER_UNITS;
+}
+
+// Owners of the sent funds that have to sign besides [payer]
+function getSigners(batch: TransferType[], payer: Keypair) {
+  const signers = new Map<string, Keypair>();
+  for (const { from } of batch) {
+    if (!from.publicKey.equals(payer.publicKey)) {
+      signers.set(from.publicKey.toBase58(), from);
+    }
+  }
+  return Array.from(signers.values());
+}
+
+// Check that [batch] fits one transaction, with the compute budget the sender adds
+function fits(batch: TransferType[], payer: Keypair) {
+  const units = batch.reduce((sum, transfer) => sum + getUnits(transfer), 0);
+  if (units > MAX_BATCH_UNITS) {
+    return false;
+  }
+
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+        ...batch.flatMap((transfer) => buildInstructions(transfer, payer)),
+      ],
+    }).compileToV0Message();
+    return (
+      new VersionedTransaction(message).serialize().length <= PACKET_DATA_SIZE
+    );
+  } catch {
+    // Too many accounts or bytes to even encode
+    return false;
+  }
+}
+
+// Split [transfers] into as few transactions as fit the size and compute limits, in order
+export function packTransfers(transfers: TransferType[], payer: Keypair) {
+  const batches: TransferType[][] = [];
+  let batch: TransferType[] = [];
+
+  for (const transfer of transfers) {
+    if (batch.length > 0 && !fits([...batch, transfer], payer)) {
+      batches.push(batch);
+      batch = [];
+    }
+    batch.push(transfer);
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+function describeTransfer(transfer: TransferType) {
+  return transfer.kind === "sol"
+    ? { amount: transfer.lamports / LAMPORTS_PER_SOL }
+    : { amount: Number(transfer.amount) / Math.pow(10, transfer.decimals) };
+}
+
+// Send [batch] as one transaction, falling back to one transaction per transfer
+// when it fails so a single bad transfer cannot hide the outcome of the others
+async function sendBatch(
+  journal: RunJournal,
+  payer: Keypair,
+  batch: TransferType[]
+): Promise<TransferOutcomeType[]> {
+  try {
+    await journal.stepBatch(
+      batch.map((transfer) => ({
+        stepId: transfer.stepId,
+        details: describeTransfer(transfer),
+      })),
+      async (onSubmit, pending) => {
+        const sending = batch.filter((transfer) =>
+          pending.some((step) => step.stepId === transfer.stepId)
+        );
+        console.log(
+          `Sending ${sending.length} transfer(s) in one transaction paid by ${payer.publicKey}`
+        );
+        const result = await sendTransaction(connection, {
+          payer,
+          signers: getSigners(sending, payer),
+          instructions: sending.flatMap((transfer) =>
+            buildInstructions(transfer, payer)
+          ),
+          onSubmit,
+        });
+        return assertSent(result);
+      }
+    );
+    return batch.map((transfer) => ({
+      stepId: transfer.stepId,
+      status: "confirmed",
+      signature: journal.getStep(transfer.stepId)?.signature,
+    }));
+  } catch (err) {
+    if (batch.length > 1) {
+      console.error(
+        `Transaction of ${batch.length} transfers failed, sending them one by one.`
+      );
+      const outcomes: TransferOutcomeType[] = [];
+      for (const transfer of batch) {
+        outcomes.push(...(await sendBatch(journal, payer, [transfer])));
+      }
+      return outcomes;
+    }
+    return [
+      {
+        stepId: batch[0].stepId,
+        status: "failed",
+        signature: journal.getStep(batch[0].stepId)?.signature,
+        error: err instanceof Error ? err.message : String(err),
+      },
+    ];
+  }
+}
+
+// Send [transfers] in as few transactions as fit, every one paid by [payer] and signed by
+// the owners of the funds. Each transfer is its own journal step and gets its own outcome.
+export async function sendTransfers(
+  journal: RunJournal,
+  payer: Keypair,
+  transfers: TransferType[]
+) {
+  const outcomes: TransferOutcomeType[] = [];
+  for (const batch of packTransfers(transfers, payer)) {
+    outcomes.push(...(await sendBatch(journal, payer, batch)));
+  }
+  return outcomes;
+}
+
+// Print [outcomes] and throw if any transfer failed, so the run stays open for resume
+export function assertTransfersSent(outcomes: TransferOutcomeType[]) {
+  if (outcomes.length > 0) {
+    console.table(outcomes);
+  }
+  const failed = outcomes.filter((outcome) => outcome.status === "failed");
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} of ${outcomes.length} transfers failed`);
+  }
+}
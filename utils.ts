@@ -5,54 +5,68 @@ import {
   ParsedAccountData,
   PublicKey,
   SystemProgram,
-  Transaction,
-  TransactionMessage,
-  VersionedTransaction,
-  sendAndConfirmTransaction,
   TransactionInstruction,
-  ComputeBudgetProgram,
-  AddressLookupTableProgram,
-  AddressLookupTableAccount,
 } from "@solana/web3.js";
 import axios from "axios";
 import bs58 from "bs58";
 import fs from "fs";
 import path from "path";
 import {
+  createBurnInstruction,
+  createCloseAccountInstruction,
   createTransferInstruction,
-  getOrCreateAssociatedTokenAccount,
   getAssociatedTokenAddress,
+  getAssociatedTokenAddressSync,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
 import * as BufferLayout from "@solana/buffer-layout";
+import { RPC_URL } from "./constants";
+import { DustModeType, RpcEndpointType, getConfig } from "./config";
+import { BondingCurveStateType, getBondingCurveState } from "./bondingCurve";
+import { buildBuyInstruction, buildSellInstruction } from "./instructions";
+import { readSecureFile, writeSecureFile } from "./keystore";
 import {
-  ASSOC_TOKEN_ACC_PROG,
-  EVENT_AUTHORITY,
-  FEE_RECIPIENT,
-  GLOBAL,
-  PUMP_FUN_PROGRAM,
-  RENT,
-  RPC_URL,
-  SLIPPAGE,
-  SOL_BUY_MAX,
-  SOL_BUY_MIN,
-  SYSTEM_PROGRAM,
-  TOKEN_PROGRAM,
-  UNIT_BUDGET,
-  UNIT_PRICE,
-} from "./constants";
-import { getSimulationComputeUnits } from "@solana-developers/helpers";
-
-export const connection = new Connection(RPC_URL, {
-  confirmTransactionInitialTimeout: 45_000,
-  commitment: "confirmed",
-});
+  addSlippage,
+  getBuyQuote,
+  getPriceImpact,
+  getSellQuote,
+  subtractSlippage,
+} from "./quote";
+import { assertSent, sendTransaction } from "./sender";
+import { CurveCompleteError, ProgramError } from "./programErrors";
+import { findDexPool, getPoolReserves } from "./dex";
+import { RpcPool, createRpcPool } from "./rpcPool";
+
+let rpcPool: RpcPool | undefined;
+
+export let connection = createConnection([{ url: RPC_URL, weight: 1 }]);
+
+export const WALLETS_FILE = path.join(__dirname, "wallets.json");
+export const PAUSED_FILE = path.join(__dirname, "paused.json");
+export const SEED_FILE = path.join(__dirname, "seed.json");
+
+let walletsFile = WALLETS_FILE;
+let paperTrading = false;
+
+// Bonding curves from the configured connection, SOL price from CoinGecko
+let coinDataSource: CoinDataSourceType = {
+  getBondingCurve: (mint) => getBondingCurveState(connection, mint),
+  getSolPrice: async () => {
+    const { data } = await axios.get(
+      "https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd"
+    );
+    return data.solana.usd;
+  },
+};
 
 export type WalletInfoType = {
   privateKey: string;
   publicKey: string;
+  index?: number; // derivation index when derived from the mnemonic
+  label?: string;
 };
 
 export type PausedWalletInfoType = {
@@ -61,6 +75,82 @@ export type PausedWalletInfoType = {
   amount: number;
 };
 
+// Called with the signature of a signed transaction right before it is broadcast
+export type SubmitHookType = (
+  signature: string,
+  lastValidBlockHeight: number
+) => void | Promise<void>;
+
+// Market data the bot reads besides plain RPC account state
+export type CoinDataSourceType = {
+  getBondingCurve: (mint: string | PublicKey) => Promise<BondingCurveStateType>;
+  getSolPrice: () => Promise<number>;
+};
+
+export type PausedStateType = {
+  mint?: string; // token the paused process was buying, missing in older files
+  wallets: PausedWalletInfoType[];
+};
+
+// Connection whose requests all go through a pool of [endpoints]
+function createConnection(endpoints: RpcEndpointType[]) {
+  rpcPool = createRpcPool(endpoints);
+  return new Connection(rpcPool.primaryUrl, {
+    confirmTransactionInitialTimeout: 45_000,
+    commitment: "confirmed",
+    fetch: rpcPool.fetch,
+  });
+}
+
+// Point every RPC call at [rpcUrl] alone, e.g. a local validator
+export function setRpcUrl(rpcUrl: string) {
+  setRpcEndpoints([{ url: rpcUrl, weight: 1 }]);
+}
+
+// Spread every RPC call over [endpoints], called once the configuration is loaded
+export function setRpcEndpoints(endpoints: RpcEndpointType[]) {
+  connection = createConnection(endpoints);
+}
+
+// Route every RPC call through [replacement], e.g. an in-memory FakeLedger
+export function setConnection(replacement: Connection) {
+  connection = replacement;
+  rpcPool = undefined;
+}
+
+// Get the endpoint pool behind [target], missing once the connection was replaced
+export function getRpcPool(target: Connection = connection) {
+  return target === connection ? rpcPool : undefined;
+}
+
+// Replace where bonding curves and the SOL price come from
+export function setCoinDataSource(source: CoinDataSourceType) {
+  coinDataSource = source;
+}
+
+// Get where bonding curves and the SOL price come from
+export function getCoinDataSource() {
+  return coinDataSource;
+}
+
+// Mark the run as a dry run: no waits between steps and no paused state written
+export function setPaperTrading(enabled: boolean) {
+  paperTrading = enabled;
+}
+
+export function isPaperTrading() {
+  return paperTrading;
+}
+
+// Read and write wallets from [file] instead of wallets.json
+export function setWalletsFile(file: string) {
+  walletsFile = path.resolve(file);
+}
+
+export function getWalletsFile() {
+  return walletsFile;
+}
+
 // Get the number of decimals for a given token to accurately handle token amounts.
 async function getNumberDecimals(mintAddress: PublicKey): Promise<number> {
   try {
@@ -77,6 +167,10 @@ async function getNumberDecimals(mintAddress: PublicKey): Promise<number> {
 
 // Wait for [seconds] seconds before proceeding to next method
 export async function waitSeconds(seconds: number) {
+  // Paper transactions settle instantly, nothing to wait for
+  if (paperTrading) {
+    return;
+  }
   console.log(`Waiting ${seconds} seconds..`);
   await new Promise((_resolve_) => setTimeout(_resolve_, seconds * 1000));
 }
@@ -97,11 +191,7 @@ export async function getRentFee() {
 // Get current SOL price in usd
 export async function getSolPrice() {
   try {
-    // Get the current price of SOL from CoinGecko API
-    const { data } = await axios.get(
-      "https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd"
-    );
-    return data.solana.usd;
+    return await coinDataSource.getSolPrice();
   } catch (err) {
     console.error("Error getting SOL price:", err);
     throw err;
@@ -146,47 +236,80 @@ export function generateSolanaKeypair() {
 // Read list of generated wallets from the wallets.json
 export async function getWalletsFromFile() {
   try {
-    const walletsFile = path.join(__dirname, "wallets.json");
-    const wallets = fs.readFileSync(walletsFile, "utf8");
-    return JSON.parse(wallets);
+    return await readSecureFile(walletsFile);
   } catch (err) {
     console.error("Error in reading from wallets file: ", err);
     return [];
   }
 }
 
-// Write list of generated wallets to the wallets.json
+// Write list of generated wallets to the wallets.json, throwing when they could not be stored
 export async function storeWalletsToFile(wallets: WalletInfoType[]) {
-  try {
-    const walletsFile = path.join(__dirname, "wallets.json");
-    fs.writeFileSync(walletsFile, JSON.stringify(wallets, null, 2));
+  await writeSecureFile(walletsFile, wallets);
+
+  console.log(`Wallets generated and saved to ${walletsFile}`);
+}
 
-    console.log(`Wallets generated and saved to ${walletsFile}`);
+// Read the mnemonic that sub-wallets are derived from, if one was stored
+export async function getMnemonicFromFile(): Promise<string | undefined> {
+  if (process.env.MNEMONIC) {
+    return process.env.MNEMONIC;
+  }
+  if (!fs.existsSync(SEED_FILE)) {
+    return undefined;
+  }
+
+  try {
+    const seed = await readSecureFile(SEED_FILE);
+    return seed.mnemonic;
   } catch (err) {
-    console.error("Error in writing to wallets file: ", err);
+    console.error("Error in reading from seed file: ", err);
+    return undefined;
   }
 }
 
-// Get list of wallets for resuming the trade from paused.json
-export async function getPausedState() {
+// Write the mnemonic that sub-wallets are derived from to seed.json, throwing when it could not be stored
+export async function storeMnemonicToFile(mnemonic: string) {
+  await writeSecureFile(SEED_FILE, { mnemonic });
+
+  console.log(`Mnemonic saved to ${SEED_FILE}`);
+}
+
+// Get list of wallets for resuming the trade from [file]
+export async function getPausedState(
+  file = PAUSED_FILE
+): Promise<PausedStateType> {
   try {
-    const pausedFile = path.join(__dirname, "paused.json");
-    const wallets = fs.readFileSync(pausedFile, "utf8");
-    return JSON.parse(wallets);
+    if (!fs.existsSync(file)) {
+      return { wallets: [] };
+    }
+
+    const state = await readSecureFile(file);
+    // Older paused.json files hold only the list of wallets
+    return Array.isArray(state) ? { wallets: state } : state;
   } catch (err) {
     console.error("Error in reading from paused wallets file: ", err);
-    return [];
+    return { wallets: [] };
   }
 }
 
-// Write list of wallets for resuming the trade to paused.json
-export async function setPausedState(wallets: PausedWalletInfoType[]) {
+// Write list of wallets for resuming the trade of [mint] to [file]
+export async function setPausedState(
+  mint: string,
+  wallets: PausedWalletInfoType[],
+  file = PAUSED_FILE
+) {
+  // A dry run must leave the real paused process untouched
+  if (paperTrading) {
+    return;
+  }
+
   try {
-    const pausedFile = path.join(__dirname, "paused.json");
-    fs.writeFileSync(pausedFile, JSON.stringify(wallets, null, 2));
+    const state: PausedStateType = { mint, wallets };
+    await writeSecureFile(file, state);
 
     if (wallets?.length > 0) {
-      console.log(`Paused process saved to ${pausedFile}`);
+      console.log(`Paused process saved to ${file}`);
     }
   } catch (err) {
     console.error("Error in writing to paused wallets file: ", err);
@@ -194,14 +317,16 @@ export async function setPausedState(wallets: PausedWalletInfoType[]) {
 }
 
 // Generate SOL amounts to send to each wallet
-export function generateRandomAmounts(numberOfWallets: number) {
+export function generateRandomAmounts(
+  numberOfWallets: number,
+  min = getConfig().solBuyMin,
+  max = getConfig().solBuyMax
+) {
   const amounts = [];
   for (let index = 0; index < numberOfWallets; index++) {
     const randomAmount =
-      Math.round(
-        (Math.random() * (SOL_BUY_MAX - SOL_BUY_MIN) + SOL_BUY_MIN) *
-          LAMPORTS_PER_SOL
-      ) / LAMPORTS_PER_SOL;
+      Math.round((Math.random() * (max - min) + min) * LAMPORTS_PER_SOL) /
+      LAMPORTS_PER_SOL;
     amounts.push(randomAmount);
   }
 
@@ -212,7 +337,8 @@ export function generateRandomAmounts(numberOfWallets: number) {
 export async function sendSolToWallet(
   fromPvtKey: string,
   toPubKey: PublicKey,
-  amount: number
+  amount: number,
+  onSubmit?: SubmitHookType
 ) {
   try {
     const fromWallet = Keypair.fromSecretKey(bs58.decode(fromPvtKey));
@@ -223,23 +349,18 @@ export async function sendSolToWallet(
       } to ${toPubKey}`
     );
 
-    const transaction = new Transaction();
-    const sendSolInstruction = SystemProgram.transfer({
-      fromPubkey: fromWallet.publicKey,
-      toPubkey: toPubKey,
-      lamports: Math.round(LAMPORTS_PER_SOL * amount),
+    const result = await sendTransaction(connection, {
+      payer: fromWallet,
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: fromWallet.publicKey,
+          toPubkey: toPubKey,
+          lamports: Math.round(LAMPORTS_PER_SOL * amount),
+        }),
+      ],
+      onSubmit,
     });
-    transaction.add(sendSolInstruction);
-
-    const transactionSignature = await sendAndConfirmTransaction(
-      connection,
-      transaction,
-      [fromWallet]
-    );
-
-    console.log(
-      `Transaction successful: https://solscan.io/tx/${transactionSignature}`
-    );
+    return assertSent(result);
   } catch (err) {
     console.error("Error occurred in transferring SOL: ", err);
     throw err;
@@ -251,7 +372,8 @@ export async function sendTokenToWallet(
   fromPvtKey: string,
   toPubKey: PublicKey,
   tokenAddress: string,
-  amount: number
+  amount: number,
+  onSubmit?: SubmitHookType
 ) {
   try {
     const fromWallet = Keypair.fromSecretKey(bs58.decode(fromPvtKey));
@@ -269,101 +391,185 @@ export async function sendTokenToWallet(
       amount * Math.pow(10, decimals)
     );
 
-    // Create or get the associated token accounts for the sender and receiver.
-    let fromTokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      fromWallet,
+    const fromTokenAccount = await getAssociatedTokenAddress(
       tokenMintAddress,
       fromWallet.publicKey
     );
-
-    let toTokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      fromWallet,
+    const toTokenAccount = await getAssociatedTokenAddress(
       tokenMintAddress,
       toPubKey
     );
 
-    // Prepare the transfer instructions with all necessary information.
-    const transferInstruction = createTransferInstruction(
-      fromTokenAccount.address,
-      toTokenAccount.address,
-      fromWallet.publicKey,
-      transferAmountInDecimals
-    );
+    // Create the receiver's token account in the same transaction if it does not exist yet.
+    const result = await sendTransaction(connection, {
+      payer: fromWallet,
+      instructions: [
+        createAssociatedTokenAccountIdempotentInstruction(
+          fromWallet.publicKey,
+          toTokenAccount,
+          toPubKey,
+          tokenMintAddress
+        ),
+        createTransferInstruction(
+          fromTokenAccount,
+          toTokenAccount,
+          fromWallet.publicKey,
+          transferAmountInDecimals
+        ),
+      ],
+      onSubmit,
+    });
+    return assertSent(result);
+  } catch (err) {
+    console.error("Error in transferring SPL token: ", err);
+    throw err;
+  }
+}
 
-    let latestBlockhash = await connection.getLatestBlockhash("confirmed");
+export type TokenAccountInfoType = {
+  address: PublicKey;
+  mint: PublicKey;
+  amount: bigint; // raw token units
+  decimals: number;
+  lamports: number; // rent held by the account
+};
 
-    // Compile and sign the transaction message with the sender's Keypair.
-    const messageV0 = new TransactionMessage({
-      payerKey: fromWallet.publicKey,
-      recentBlockhash: latestBlockhash.blockhash,
-      instructions: [transferInstruction],
-    }).compileToV0Message();
-    const versionedTransaction = new VersionedTransaction(messageV0);
-    versionedTransaction.sign([fromWallet]);
+// List every SPL token account owned by [walletAddress]
+export async function getTokenAccounts(
+  walletAddress: PublicKey
+): Promise<TokenAccountInfoType[]> {
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    walletAddress,
+    { programId: TOKEN_PROGRAM_ID }
+  );
+  return value.map(({ pubkey, account }) => {
+    const info = (account.data as ParsedAccountData).parsed.info;
+    return {
+      address: pubkey,
+      mint: new PublicKey(info.mint),
+      amount: BigInt(info.tokenAmount.amount),
+      decimals: info.tokenAmount.decimals,
+      lamports: account.lamports,
+    };
+  });
+}
 
-    const txid = await connection.sendTransaction(versionedTransaction, {
-      maxRetries: 20,
-    });
-    console.log(`Transaction Submitted: ${txid}`);
-
-    const confirmation = await connection.confirmTransaction(
-      {
-        signature: txid,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-      },
-      "confirmed"
-    );
-    if (confirmation.value.err) {
-      throw new Error("Transaction not confirmed.");
+// Close [accounts] of the wallet so their rent returns to it. Tokens left in them are
+// burned or sent to [toPubKey] first, following [dustMode].
+export async function closeTokenAccounts(
+  fromPvtKey: string,
+  toPubKey: PublicKey,
+  accounts: TokenAccountInfoType[],
+  dustMode: DustModeType,
+  onSubmit?: SubmitHookType
+) {
+  try {
+    const fromWallet = Keypair.fromSecretKey(bs58.decode(fromPvtKey));
+    const instructions: TransactionInstruction[] = [];
+
+    for (const account of accounts) {
+      if (account.amount > BigInt(0) && dustMode === "burn") {
+        instructions.push(
+          createBurnInstruction(
+            account.address,
+            account.mint,
+            fromWallet.publicKey,
+            account.amount
+          )
+        );
+      } else if (account.amount > BigInt(0)) {
+        const toTokenAccount = getAssociatedTokenAddressSync(
+          account.mint,
+          toPubKey
+        );
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            fromWallet.publicKey,
+            toTokenAccount,
+            toPubKey,
+            account.mint
+          ),
+          createTransferInstruction(
+            account.address,
+            toTokenAccount,
+            fromWallet.publicKey,
+            account.amount
+          )
+        );
+      }
+      instructions.push(
+        createCloseAccountInstruction(
+          account.address,
+          fromWallet.publicKey,
+          fromWallet.publicKey
+        )
+      );
     }
 
     console.log(
-      `Transaction Successfully Confirmed! View on SolScan: https://solscan.io/tx/${txid}`
+      `Closing ${accounts.length} token account(s) of ${fromWallet.publicKey}`
     );
+
+    const result = await sendTransaction(connection, {
+      payer: fromWallet,
+      instructions,
+      onSubmit,
+    });
+    return assertSent(result);
   } catch (err) {
-    console.error("Error in transferring SPL token: ", err);
+    console.error("Error in closing token accounts: ", err);
     throw err;
   }
 }
 
-// Get the latest transaction made on the target token
-export async function getLatestTokenTransaction(tokenMintAddress: string) {
+// Transfer every lamport of the wallet to [toPubKey], paying the fee out of the
+// transfer so the wallet ends at exactly zero
+export async function drainWallet(
+  fromPvtKey: string,
+  toPubKey: PublicKey,
+  onSubmit?: SubmitHookType
+) {
   try {
-    const latestBlockhash = await connection.getLatestBlockhash();
-
-    // Find all transactions that include this token
-    const tokenTransactionsLamportRange =
-      await connection.getSignaturesForAddress(
-        new PublicKey(tokenMintAddress),
-        { limit: 1 } //until: latestBlockhash.blockhash,
-      );
-
-    if (tokenTransactionsLamportRange.length > 0) {
-      const sortedTokenTransactions = tokenTransactionsLamportRange
-        .sort((a, b) => Number(b.signature) - Number(a.signature))
-        .slice(0, 1);
-
-      if (sortedTokenTransactions.length > 0) {
-        const latestTokenTransaction = await connection.getTransaction(
-          sortedTokenTransactions[0].signature,
-          { maxSupportedTransactionVersion: 0 }
+    const fromWallet = Keypair.fromSecretKey(bs58.decode(fromPvtKey));
+    const balance = await connection.getBalance(
+      fromWallet.publicKey,
+      "confirmed"
+    );
+    const transfer = (fee: number) => {
+      if (balance <= fee) {
+        throw new Error(
+          `Balance of ${balance} lamports does not cover the ${fee} lamports fee`
         );
-
-        return latestTokenTransaction?.transaction?.signatures[0];
-      } else {
-        console.log("No token transactions were found.");
       }
-    } else {
-      console.log("No token transactions were found.");
-    }
-  } catch (err) {
-    console.error(
-      "Error occurred during getting latest token transaction: ",
-      err
+      return [
+        SystemProgram.transfer({
+          fromPubkey: fromWallet.publicKey,
+          toPubkey: toPubKey,
+          lamports: balance - fee,
+        }),
+      ];
+    };
+
+    console.log(
+      `Sending all ${balance / LAMPORTS_PER_SOL} SOL from ${
+        fromWallet.publicKey
+      } to ${toPubKey}, minus the fee`
     );
+
+    // The signature fee keeps the simulation for the compute budget solvent
+    const result = await sendTransaction(connection, {
+      payer: fromWallet,
+      instructions: transfer(5000),
+      withFee: transfer,
+      onSubmit,
+    });
+    return {
+      signature: assertSent(result),
+      lamports: balance - (result.fee ?? 0),
+    };
+  } catch (err) {
+    console.error("Error in draining wallet: ", err);
+    throw err;
   }
 }
 
@@ -371,14 +577,16 @@ export async function getLatestTokenTransaction(tokenMintAddress: string) {
 export async function placeBuyTrade(
   tokenMint: any,
   privateKey: string,
-  amount: number
+  amount: number,
+  onSubmit?: SubmitHookType
 ) {
   try {
-    const coinData = await getCoinData(tokenMint);
+    const curve = await coinDataSource.getBondingCurve(tokenMint);
 
-    if (!coinData) {
-      console.log("Failed to retrieve coin data...");
-      return;
+    if (curve.complete) {
+      throw new CurveCompleteError(
+        "Bonding curve is complete, token no longer trades on pump.fun."
+      );
     }
 
     const walletInfo = Keypair.fromSecretKey(bs58.decode(privateKey));
@@ -420,78 +628,24 @@ export async function placeBuyTrade(
     }
 
     // Calculate tokens out
-    const solInLamports = amount * LAMPORTS_PER_SOL;
-    const tokenOut = Math.floor(
-      (solInLamports * coinData.virtual_token_reserves) /
-        coinData.virtual_sol_reserves
-    );
-
-    const solInWithSlippage = (amount * (100 + SLIPPAGE)) / 100;
-    const maxSolCost = Math.floor(solInWithSlippage * LAMPORTS_PER_SOL);
+    const solInLamports = BigInt(Math.floor(amount * LAMPORTS_PER_SOL));
+    const quote = getBuyQuote(curve, solInLamports);
+    const tokenOut = quote.tokenOut;
+    const maxSolCost = addSlippage(quote.solIn, getConfig().slippage);
 
-    // Define account keys required for the swap
-    const MINT = new PublicKey(coinData.mint);
-    const BONDING_CURVE = new PublicKey(coinData.bonding_curve);
-    const ASSOCIATED_BONDING_CURVE = new PublicKey(
-      coinData.associated_bonding_curve
+    console.log(
+      `Quoted ${tokenOut} token units for ${quote.solIn} lamports (fee ${
+        quote.fee
+      }, price impact ${getPriceImpact(curve, "buy", solInLamports)}%)`
     );
-    const ASSOCIATED_USER = new PublicKey(tokenAccount);
-    const USER = walletInfo.publicKey;
-
-    // Build account key list
-    const keys: {
-      pubkey: PublicKey;
-      isSigner: boolean;
-      isWritable: boolean;
-    }[] = [
-      { pubkey: new PublicKey(GLOBAL), isSigner: false, isWritable: false },
-      {
-        pubkey: new PublicKey(FEE_RECIPIENT),
-        isSigner: false,
-        isWritable: true,
-      },
-      { pubkey: MINT, isSigner: false, isWritable: false },
-      { pubkey: BONDING_CURVE, isSigner: false, isWritable: true },
-      { pubkey: ASSOCIATED_BONDING_CURVE, isSigner: false, isWritable: true },
-      { pubkey: ASSOCIATED_USER, isSigner: false, isWritable: true },
-      { pubkey: USER, isSigner: true, isWritable: true },
-      {
-        pubkey: new PublicKey(SYSTEM_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(TOKEN_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-      { pubkey: new PublicKey(RENT), isSigner: false, isWritable: false },
-      {
-        pubkey: new PublicKey(EVENT_AUTHORITY),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(PUMP_FUN_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-    ];
-
-    // Define integer values
-    const buy = BigInt("16927863322537952870");
-    const integers = [buy, BigInt(tokenOut), BigInt(maxSolCost)];
-
-    const binarySegments = integers.map((integer) => {
-      const buffer = Buffer.alloc(8);
-      buffer.writeBigUInt64LE(integer, 0);
-      return buffer;
-    });
-    const data = Buffer.concat(binarySegments);
-    const swapInstruction = new TransactionInstruction({
-      keys,
-      programId: new PublicKey(PUMP_FUN_PROGRAM),
-      data,
+
+    // Build pump.fun buy instruction
+    const swapInstruction = buildBuyInstruction({
+      mint: curve.mint,
+      user: walletInfo.publicKey,
+      associatedUser: new PublicKey(tokenAccount),
+      amount: tokenOut,
+      maxSolCost,
     });
 
     const instructions: TransactionInstruction[] = [];
@@ -501,74 +655,22 @@ export async function placeBuyTrade(
     }
     instructions.push(swapInstruction);
 
-    const slot = await connection.getSlot();
-    const [lookupTableInst, lookupTableAddress] =
-      AddressLookupTableProgram.createLookupTable({
-        authority: walletInfo.publicKey,
-        payer: walletInfo.publicKey,
-        recentSlot: slot,
-      });
-
-    const lookupTableAccount = (
-      await connection.getAddressLookupTable(lookupTableAddress)
-    ).value;
-    let lookupTables: Array<AddressLookupTableAccount> = [];
-    if (lookupTableAccount) {
-      lookupTables = [lookupTableAccount];
-    }
-
-    const microLamports = 100;
-    const units = await getSimulationComputeUnits(
-      connection,
+    const result = await sendTransaction(connection, {
+      payer: walletInfo,
       instructions,
-      walletInfo.publicKey,
-      lookupTables
-    );
-
-    instructions.unshift(
-      ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
-    );
-    if (units) {
-      instructions.unshift(
-        ComputeBudgetProgram.setComputeUnitLimit({
-          units: units ? units * 1.5 : UNIT_BUDGET,
-        })
-      );
-    }
-
-    const latestBlockhash = await connection.getLatestBlockhash();
-
-    const messageV0 = new TransactionMessage({
-      payerKey: walletInfo.publicKey,
-      recentBlockhash: latestBlockhash.blockhash,
-      instructions: instructions,
-    }).compileToV0Message(lookupTables);
-    const versionedTransaction = new VersionedTransaction(messageV0);
-    versionedTransaction.sign([walletInfo]);
-
-    const txid = await connection.sendTransaction(versionedTransaction, {
-      maxRetries: 20,
+      onSubmit,
     });
-    console.log(`Transaction Submitted: ${txid}`);
-
-    const confirmation = await connection.confirmTransaction(
-      {
-        signature: txid,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-      },
-      "confirmed"
-    );
-    if (confirmation.value.err) {
-      throw new Error("Transaction not confirmed.");
-    }
-
-    console.log(
-      `Transaction Successfully Confirmed! View on SolScan: https://solscan.io/tx/${txid}`
-    );
-    return txid;
+    return assertSent(result);
   } catch (err) {
-    console.error("Error in buying the token: ", err);
+    // Program rejections are final, failed sends and RPC errors reach the caller too so
+    // the scheduler can retry them
+    if (!(err instanceof ProgramError)) {
+      console.error(
+        "Error in buying the token: ",
+        err instanceof Error ? err.message : err
+      );
+    }
+    throw err;
   }
 }
 
@@ -576,23 +678,28 @@ export async function placeBuyTrade(
 export async function placeSellTrade(
   tokenMint: any,
   privateKey: string,
-  amount: number
+  amount: number,
+  onSubmit?: SubmitHookType
 ) {
   try {
-    const coinData = await getCoinData(tokenMint);
-
-    if (!coinData) {
-      console.log("Failed to retrieve coin data...");
-      return;
-    }
-
+    const curve = await coinDataSource.getBondingCurve(tokenMint);
     const walletInfo = Keypair.fromSecretKey(bs58.decode(privateKey));
     const tokenMintAddress = new PublicKey(tokenMint);
 
+    // Migrated tokens sell on the first AMM that has a pool for them
+    const dex = curve.complete
+      ? await findDexPool(tokenMintAddress)
+      : undefined;
+    if (curve.complete && !dex) {
+      throw new CurveCompleteError(
+        "Bonding curve is complete and no DEX adapter has a pool for this token."
+      );
+    }
+
     console.log(
       `Placing sell order with ${amount.toFixed(2)} token on ${
         walletInfo.publicKey
-      }`
+      }${dex ? ` via ${dex.adapter.name}` : ""}`
     );
 
     const tokenAccount = await getAssociatedTokenAddress(
@@ -600,207 +707,72 @@ export async function placeSellTrade(
       walletInfo.publicKey
     );
 
-    // Calculate tokens out
-    const virtualSolReserves = coinData.virtual_sol_reserves / 10 ** 9;
-    const virtualTokenReserves = coinData.virtual_token_reserves / 10 ** 6;
-    const pricePerToken = virtualSolReserves / virtualTokenReserves;
-
-    const minSolOutput = Math.floor(
-      ((amount * pricePerToken * (100 - SLIPPAGE)) / 100) * LAMPORTS_PER_SOL
-    );
+    // Calculate SOL out. Amounts come from 6 decimal balances, so rounding undoes the float
+    // error that flooring would turn into a raw unit left unsold.
+    const tokenIn = BigInt(Math.round(amount * 10 ** 6));
+    const reserves = dex ? getPoolReserves(dex.pool) : curve;
+    const quote = dex
+      ? dex.adapter.getSellQuote(dex.pool, tokenIn)
+      : getSellQuote(curve, tokenIn);
+    const minSolOutput = subtractSlippage(quote.solOut, getConfig().slippage);
 
-    // Define account keys required for the swap
-    const MINT = new PublicKey(coinData.mint);
-    const BONDING_CURVE = new PublicKey(coinData.bonding_curve);
-    const ASSOCIATED_BONDING_CURVE = new PublicKey(
-      coinData.associated_bonding_curve
+    console.log(
+      `Quoted ${quote.solOut} lamports for ${tokenIn} token units (fee ${
+        quote.fee
+      }, price impact ${getPriceImpact(reserves, "sell", tokenIn)}%)`
     );
-    const ASSOCIATED_USER = new PublicKey(tokenAccount);
-    const USER = walletInfo.publicKey;
-
-    // Build account key list
-    const keys: {
-      pubkey: PublicKey;
-      isSigner: boolean;
-      isWritable: boolean;
-    }[] = [
-      { pubkey: new PublicKey(GLOBAL), isSigner: false, isWritable: false },
-      {
-        pubkey: new PublicKey(FEE_RECIPIENT),
-        isSigner: false,
-        isWritable: true,
-      },
-      { pubkey: MINT, isSigner: false, isWritable: false },
-      { pubkey: BONDING_CURVE, isSigner: false, isWritable: true },
-      { pubkey: ASSOCIATED_BONDING_CURVE, isSigner: false, isWritable: true },
-      { pubkey: ASSOCIATED_USER, isSigner: false, isWritable: true },
-      { pubkey: USER, isSigner: true, isWritable: true },
-      {
-        pubkey: new PublicKey(SYSTEM_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(ASSOC_TOKEN_ACC_PROG),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(TOKEN_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(EVENT_AUTHORITY),
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: new PublicKey(PUMP_FUN_PROGRAM),
-        isSigner: false,
-        isWritable: false,
-      },
-    ];
-
-    // Define integer values
-    const sell = BigInt("12502976635542562355");
-    const integers = [
-      sell,
-      BigInt(Math.floor(amount * 10 ** 6)),
-      BigInt(minSolOutput),
-    ];
-
-    const binarySegments = integers.map((integer) => {
-      const buffer = Buffer.alloc(8);
-      buffer.writeBigUInt64LE(integer, 0);
-      return buffer;
-    });
-    const data = Buffer.concat(binarySegments);
-    const swapInstruction = new TransactionInstruction({
-      keys,
-      programId: new PublicKey(PUMP_FUN_PROGRAM),
-      data,
-    });
 
     const instructions: TransactionInstruction[] = [];
 
-    instructions.push(swapInstruction);
-
-    const slot = await connection.getSlot();
-    const [lookupTableInst, lookupTableAddress] =
-      AddressLookupTableProgram.createLookupTable({
-        authority: walletInfo.publicKey,
-        payer: walletInfo.publicKey,
-        recentSlot: slot,
-      });
-
-    const lookupTableAccount = (
-      await connection.getAddressLookupTable(lookupTableAddress)
-    ).value;
-    let lookupTables: Array<AddressLookupTableAccount> = [];
-    if (lookupTableAccount) {
-      lookupTables = [lookupTableAccount];
-    }
-
-    const microLamports = 100;
-    const units = await getSimulationComputeUnits(
-      connection,
-      instructions,
-      walletInfo.publicKey,
-      lookupTables
-    );
-
-    instructions.unshift(
-      ComputeBudgetProgram.setComputeUnitPrice({ microLamports })
-    );
-    if (units) {
-      instructions.unshift(
-        ComputeBudgetProgram.setComputeUnitLimit({
-          units: units ? units * 1.5 : UNIT_BUDGET,
+    if (dex) {
+      instructions.push(
+        ...(await dex.adapter.buildSellInstructions(
+          dex.pool,
+          walletInfo.publicKey,
+          tokenIn,
+          minSolOutput
+        ))
+      );
+    } else {
+      // Build pump.fun sell instruction
+      instructions.push(
+        buildSellInstruction({
+          mint: curve.mint,
+          user: walletInfo.publicKey,
+          associatedUser: tokenAccount,
+          amount: tokenIn,
+          minSolOutput,
         })
       );
     }
 
-    const latestBlockhash = await connection.getLatestBlockhash();
-
-    const messageV0 = new TransactionMessage({
-      payerKey: walletInfo.publicKey,
-      recentBlockhash: latestBlockhash.blockhash,
-      instructions: instructions,
-    }).compileToV0Message(lookupTables);
-    const versionedTransaction = new VersionedTransaction(messageV0);
-    versionedTransaction.sign([walletInfo]);
-
-    const txid = await connection.sendTransaction(versionedTransaction, {
-      maxRetries: 20,
+    const result = await sendTransaction(connection, {
+      payer: walletInfo,
+      instructions,
+      onSubmit,
     });
-    console.log(`Transaction Submitted: ${txid}`);
-
-    const confirmation = await connection.confirmTransaction(
-      {
-        signature: txid,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-      },
-      "confirmed"
-    );
-    if (confirmation.value.err) {
-      throw new Error("Transaction not confirmed.");
-    }
-
-    console.log(
-      `Transaction Successfully Confirmed! View on SolScan: https://solscan.io/tx/${txid}`
-    );
+    return assertSent(result);
   } catch (err) {
-    console.error("Error in selling the token back: ", err);
+    // Program rejections are final, failed sends and RPC errors reach the caller too so
+    // the scheduler can retry them
+    if (!(err instanceof ProgramError)) {
+      console.error(
+        "Error in selling the token back: ",
+        err instanceof Error ? err.message : err
+      );
+    }
+    throw err;
   }
 }
 
-async function getCoinData(tokenMint: string) {
-  const url = `https://frontend-api.pump.fun/coins/${tokenMint}`;
-
-  const headers = {
-    "User-Agent":
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:126.0) Gecko/20100101 Firefox/126.0",
-    Accept: "*/*",
-    "Accept-Language": "en-US,en;q=0.5",
-    "Sec-Fetch-Dest": "empty",
-    "Sec-Fetch-Mode": "cors",
-    "Sec-Fetch-Site": "same-site",
-    "If-None-Match": 'W/"41b-5sP6oeDs1tG//az0nj9tRYbL22A"',
-    Priority: "u=4",
-  };
-
-  const { data } = await axios.get(url, { headers });
-
-  return data;
-}
-
 async function getTokenAccount(
   walletAddress: PublicKey,
   tokenMintAddress: PublicKey
 ) {
-  const response = await axios({
-    url: RPC_URL,
-    method: "post",
-    headers: { "Content-Type": "application/json" },
-    data: [
-      {
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTokenAccountsByOwner",
-        params: [
-          walletAddress,
-          {
-            mint: tokenMintAddress,
-          },
-          {
-            encoding: "jsonParsed",
-          },
-        ],
-      },
-    ],
-  });
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    walletAddress,
+    { mint: tokenMintAddress }
+  );
 
-  return response?.data[0]?.result?.value[0];
+  return value[0];
 }